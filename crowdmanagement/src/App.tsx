@@ -2,6 +2,11 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { Login } from "./components/auth/Login";
 import { Dashboard } from "./components/dashboard/Dashboard";
 import { CrowdEntries } from "./components/entries/CrowdEntries";
+import { ZoneDetail } from "./components/zones/ZoneDetail";
+import { AlertsPage } from "./components/alerts/AlertsPage";
+import { ReportsPage } from "./components/reports/ReportsPage";
+import { SettingsPage } from "./components/settings/SettingsPage";
+import { SessionLayout } from "./components/session/SessionLayout";
 import { AuthGuard } from "./guards/AuthGuard";
 import { authService } from "./services/auth.service";
 
@@ -20,21 +25,26 @@ function App() {
           }
         />
         <Route
-          path="/dashboard"
           element={
             <AuthGuard>
-              <Dashboard />
+              <SessionLayout />
             </AuthGuard>
           }
-        />
-        <Route
-          path="/entries"
-          element={
-            <AuthGuard>
-              <CrowdEntries />
-            </AuthGuard>
-          }
-        />
+        >
+          <Route path="/dashboard" element={<Dashboard />} />
+          <Route path="/entries" element={<CrowdEntries />} />
+          <Route path="/zones/:zoneId" element={<ZoneDetail />} />
+          <Route path="/alerts" element={<AlertsPage />} />
+          <Route path="/reports" element={<ReportsPage />} />
+          <Route
+            path="/settings"
+            element={
+              <AuthGuard permission="manageSettings">
+                <SettingsPage />
+              </AuthGuard>
+            }
+          />
+        </Route>
         <Route
           path="/"
           element={
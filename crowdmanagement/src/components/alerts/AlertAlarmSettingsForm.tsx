@@ -0,0 +1,138 @@
+import { useState, useEffect } from "react";
+import { alertAlarmService } from "../../services/alertAlarm.service";
+import { preferencesService } from "../../services/preferences.service";
+import type { AlertAlarmSettings } from "../../services/preferences.service";
+import { ALERT_SEVERITIES, SEVERITY_COLORS } from "../../utils/alertFormat";
+import "./AlertToastRulesForm.css";
+import "./AlertAlarmSettingsForm.css";
+
+/**
+ * Alarm sounds, quiet hours and opt-in desktop notifications
+ */
+export function AlertAlarmSettingsForm() {
+  const [settings, setSettings] = useState<AlertAlarmSettings>(
+    preferencesService.getPreferences().alertAlarms
+  );
+  const [permission, setPermission] = useState(
+    alertAlarmService.getDesktopPermission()
+  );
+
+  useEffect(() => {
+    return preferencesService.onChange((preferences) =>
+      setSettings(preferences.alertAlarms)
+    );
+  }, []);
+
+  const update = (changes: Partial<AlertAlarmSettings>) => {
+    preferencesService.updatePreferences({
+      alertAlarms: { ...settings, ...changes },
+    });
+  };
+
+  const updateQuietHours = (
+    changes: Partial<AlertAlarmSettings["quietHours"]>
+  ) => {
+    update({ quietHours: { ...settings.quietHours, ...changes } });
+  };
+
+  const handleDesktopToggle = async (enabled: boolean) => {
+    if (!enabled) {
+      update({ desktopNotifications: false });
+      return;
+    }
+    const result = await alertAlarmService.requestDesktopPermission();
+    setPermission(result);
+    update({ desktopNotifications: result === "granted" });
+  };
+
+  return (
+    <details className="toast-rules">
+      <summary>Sounds &amp; desktop notifications</summary>
+      <div className="toast-rules-body">
+        <fieldset className="toast-rules-field">
+          <legend className="toast-rules-label">Alarm sounds</legend>
+          <label className="toast-rules-option">
+            <input
+              type="checkbox"
+              checked={!settings.muted}
+              onChange={(e) => update({ muted: !e.target.checked })}
+            />
+            Play a sound for pop-up alerts and every critical alert
+          </label>
+          <div className="alarm-preview">
+            {ALERT_SEVERITIES.map((severity) => (
+              <button
+                key={severity}
+                type="button"
+                className="alarm-preview-button"
+                style={{ borderColor: SEVERITY_COLORS[severity] }}
+                onClick={() => alertAlarmService.playAlarm(severity)}
+                title={`Play the ${severity} alarm`}
+              >
+                <span
+                  className="alarm-preview-swatch"
+                  style={{ backgroundColor: SEVERITY_COLORS[severity] }}
+                ></span>
+                {severity}
+              </button>
+            ))}
+          </div>
+        </fieldset>
+
+        <fieldset className="toast-rules-field">
+          <legend className="toast-rules-label">Quiet hours</legend>
+          <label className="toast-rules-option">
+            <input
+              type="checkbox"
+              checked={settings.quietHours.enabled}
+              onChange={(e) => updateQuietHours({ enabled: e.target.checked })}
+            />
+            No sounds between
+          </label>
+          <div className="alarm-quiet-hours">
+            <input
+              type="time"
+              value={settings.quietHours.start}
+              onChange={(e) => updateQuietHours({ start: e.target.value })}
+              disabled={!settings.quietHours.enabled}
+              aria-label="Quiet hours start"
+            />
+            and
+            <input
+              type="time"
+              value={settings.quietHours.end}
+              onChange={(e) => updateQuietHours({ end: e.target.value })}
+              disabled={!settings.quietHours.enabled}
+              aria-label="Quiet hours end"
+            />
+          </div>
+        </fieldset>
+
+        <fieldset className="toast-rules-field">
+          <legend className="toast-rules-label">Desktop notifications</legend>
+          <label className="toast-rules-option">
+            <input
+              type="checkbox"
+              checked={
+                settings.desktopNotifications && permission === "granted"
+              }
+              onChange={(e) => handleDesktopToggle(e.target.checked)}
+              disabled={permission === "unsupported"}
+            />
+            Notify me of critical alerts while this tab is in the background
+          </label>
+          {permission === "denied" && (
+            <span className="alarm-settings-warning">
+              Notifications are blocked in your browser settings for this site.
+            </span>
+          )}
+          {permission === "unsupported" && (
+            <span className="alarm-settings-warning">
+              This browser does not support desktop notifications.
+            </span>
+          )}
+        </fieldset>
+      </div>
+    </details>
+  );
+}
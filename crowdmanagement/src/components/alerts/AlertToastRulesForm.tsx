@@ -0,0 +1,105 @@
+import { useState, useEffect } from "react";
+import { preferencesService } from "../../services/preferences.service";
+import type { AlertToastRules } from "../../services/preferences.service";
+import type { SocketAlertEvent } from "../../types/api";
+import { ALERT_ACTIONS, ALERT_SEVERITIES } from "../../utils/alertFormat";
+import "./AlertToastRulesForm.css";
+
+interface AlertToastRulesFormProps {
+  zones: { id: string; name: string }[];
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value)
+    ? values.filter((v) => v !== value)
+    : [...values, value];
+}
+
+/**
+ * Lets the user choose which incoming alerts pop up as toasts
+ */
+export function AlertToastRulesForm({ zones }: AlertToastRulesFormProps) {
+  const [rules, setRules] = useState<AlertToastRules>(
+    preferencesService.getPreferences().alertToastRules
+  );
+
+  useEffect(() => {
+    return preferencesService.onChange((preferences) =>
+      setRules(preferences.alertToastRules)
+    );
+  }, []);
+
+  const update = (changes: Partial<AlertToastRules>) => {
+    preferencesService.updatePreferences({
+      alertToastRules: { ...rules, ...changes },
+    });
+  };
+
+  return (
+    <details className="toast-rules">
+      <summary>Pop-up notifications</summary>
+      <div className="toast-rules-body">
+        <label className="toast-rules-field">
+          <span className="toast-rules-label">Minimum severity</span>
+          <select
+            value={rules.minSeverity}
+            onChange={(e) =>
+              update({
+                minSeverity: e.target.value as SocketAlertEvent["severity"],
+              })
+            }
+          >
+            {ALERT_SEVERITIES.map((severity) => (
+              <option key={severity} value={severity}>
+                {severity}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <fieldset className="toast-rules-field">
+          <legend className="toast-rules-label">
+            Actions {rules.actions.length === 0 && "(all)"}
+          </legend>
+          {ALERT_ACTIONS.map((action) => (
+            <label key={action.value} className="toast-rules-option">
+              <input
+                type="checkbox"
+                checked={rules.actions.includes(action.value)}
+                onChange={() =>
+                  update({ actions: toggle(rules.actions, action.value) })
+                }
+              />
+              {action.label}
+            </label>
+          ))}
+        </fieldset>
+
+        {zones.length > 0 && (
+          <fieldset className="toast-rules-field">
+            <legend className="toast-rules-label">
+              Zones {rules.zoneIds.length === 0 && "(all)"}
+            </legend>
+            {zones.map((zone) => (
+              <label key={zone.id} className="toast-rules-option">
+                <input
+                  type="checkbox"
+                  checked={rules.zoneIds.includes(zone.id)}
+                  onChange={() =>
+                    update({ zoneIds: toggle(rules.zoneIds, zone.id) })
+                  }
+                />
+                {zone.name}
+              </label>
+            ))}
+          </fieldset>
+        )}
+
+        <p className="toast-rules-hint">
+          Critical alerts stay on screen until dismissed; others close on their
+          own.
+        </p>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback } from "react";
+import { useSession } from "../../hooks/useSession";
+import { alertHistoryService } from "../../services/alertHistory.service";
+import { preferencesService } from "../../services/preferences.service";
+import type { SocketAlertEvent } from "../../types/api";
+import { getAlertDedupeKey, matchesToastRules } from "../../utils/alertFormat";
+import { AlertNotification } from "../dashboard/AlertNotification";
+
+interface Toast {
+  id: string;
+  dedupeKey: string;
+  alert: SocketAlertEvent;
+  count: number;
+  lastSeenAt: number; // UTC timestamp (milliseconds) of the latest duplicate
+}
+
+// How long a toast stays up; critical toasts stay until dismissed
+const AUTO_DISMISS_MS: Record<SocketAlertEvent["severity"], number | null> = {
+  low: 5000,
+  medium: 10000,
+  high: 20000,
+  critical: null,
+};
+
+// Identical alerts within this window are folded into one toast
+const DEDUPE_WINDOW_MS = 10000;
+const MAX_TOASTS = 5;
+
+function TimedToast({
+  toast,
+  onDismiss,
+}: {
+  toast: Toast;
+  onDismiss: (id: string) => void;
+}) {
+  const delay = AUTO_DISMISS_MS[toast.alert.severity];
+
+  // A new duplicate restarts the countdown
+  useEffect(() => {
+    if (delay === null) {
+      return;
+    }
+    const timer = setTimeout(() => onDismiss(toast.id), delay);
+    return () => clearTimeout(timer);
+  }, [toast.id, toast.lastSeenAt, delay, onDismiss]);
+
+  return (
+    <AlertNotification
+      alert={toast.alert}
+      count={toast.count}
+      onClose={() => onDismiss(toast.id)}
+    />
+  );
+}
+
+/**
+ * Pops up incoming alerts of the active site that match the user's toast
+ * rules. Mounted once for the whole session.
+ */
+export function AlertToastStack() {
+  const { siteId } = useSession();
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const [toastSiteId, setToastSiteId] = useState(siteId);
+  const [rules, setRules] = useState(
+    preferencesService.getPreferences().alertToastRules
+  );
+
+  useEffect(() => {
+    return preferencesService.onChange((preferences) =>
+      setRules(preferences.alertToastRules)
+    );
+  }, []);
+
+  // Toasts belong to the site they were raised for
+  if (toastSiteId !== siteId) {
+    setToastSiteId(siteId);
+    setToasts([]);
+  }
+
+  useEffect(() => {
+    return alertHistoryService.onAdded((record) => {
+      if (siteId && record.siteId !== siteId) {
+        return;
+      }
+      if (!matchesToastRules(record.event, rules)) {
+        return;
+      }
+
+      const dedupeKey = getAlertDedupeKey(record.event);
+      setToasts((prev) => {
+        const duplicate = prev.find(
+          (toast) =>
+            toast.dedupeKey === dedupeKey &&
+            record.receivedAt - toast.lastSeenAt < DEDUPE_WINDOW_MS
+        );
+        if (duplicate) {
+          return prev.map((toast) =>
+            toast === duplicate
+              ? {
+                  ...toast,
+                  alert: record.event,
+                  count: toast.count + 1,
+                  lastSeenAt: record.receivedAt,
+                }
+              : toast
+          );
+        }
+
+        const next = [
+          {
+            id: record.id,
+            dedupeKey,
+            alert: record.event,
+            count: 1,
+            lastSeenAt: record.receivedAt,
+          },
+          ...prev,
+        ];
+        // Over the limit, drop the oldest toasts that aren't critical
+        while (next.length > MAX_TOASTS) {
+          let dropIndex = next.length - 1;
+          while (
+            dropIndex >= 0 &&
+            next[dropIndex].alert.severity === "critical"
+          ) {
+            dropIndex--;
+          }
+          next.splice(dropIndex >= 0 ? dropIndex : next.length - 1, 1);
+        }
+        return next;
+      });
+    });
+  }, [siteId, rules]);
+
+  const dismiss = useCallback((id: string) => {
+    setToasts((prev) => prev.filter((toast) => toast.id !== id));
+  }, []);
+
+  if (toasts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="alert-toast-stack">
+      {toasts.map((toast) => (
+        <TimedToast key={toast.id} toast={toast} onDismiss={dismiss} />
+      ))}
+    </div>
+  );
+}
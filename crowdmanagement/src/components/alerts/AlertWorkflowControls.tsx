@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { alertHistoryService } from "../../services/alertHistory.service";
+import type {
+  AlertRecord,
+  AlertStatus,
+} from "../../services/alertHistory.service";
+import { formatInTimezone } from "../../utils/time";
+import { useSession } from "../../hooks/useSession";
+import "./AlertWorkflowControls.css";
+
+interface AlertWorkflowControlsProps {
+  record: AlertRecord;
+  timezone?: string | null;
+}
+
+const STATUS_LABELS: Record<AlertStatus, string> = {
+  open: "Unacknowledged",
+  acknowledged: "Acknowledged",
+  resolved: "Resolved",
+};
+
+/**
+ * Status and operator actions (acknowledge, assign, note, resolve) of a
+ * high/critical alert. Renders nothing for alerts without a workflow; the
+ * actions need the acknowledgeAlerts permission.
+ */
+export function AlertWorkflowControls({
+  record,
+  timezone = null,
+}: AlertWorkflowControlsProps) {
+  const [editing, setEditing] = useState<"assign" | "note" | null>(null);
+  const [text, setText] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Viewers see the workflow history but cannot act on it
+  const canAct = useSession().hasPermission("acknowledgeAlerts");
+
+  const workflow = record.workflow;
+  if (!workflow) {
+    return null;
+  }
+
+  const run = async (action: () => Promise<AlertRecord>) => {
+    try {
+      setSaving(true);
+      setError(null);
+      await action();
+      setEditing(null);
+      setText("");
+    } catch (err) {
+      console.error("AlertWorkflowControls: Failed to update alert:", err);
+      setError("Could not save. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = (mode: "assign" | "note") => {
+    setEditing(mode);
+    setText(mode === "assign" ? workflow.assignee || "" : "");
+    setError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editing === "assign") {
+      run(() => alertHistoryService.assign(record.id, text));
+    } else if (editing === "note" && text.trim()) {
+      run(() => alertHistoryService.addNote(record.id, text));
+    }
+  };
+
+  const formatTime = (utc: number) =>
+    formatInTimezone(utc, timezone, "DD MMM, hh:mm a");
+  const isResolved = workflow.status === "resolved";
+
+  return (
+    <div className="alert-workflow">
+      <div className="alert-workflow-status-row">
+        <span className={`alert-workflow-status status-${workflow.status}`}>
+          {STATUS_LABELS[workflow.status]}
+        </span>
+        {workflow.assignee && (
+          <span className="alert-workflow-meta">
+            Assigned to {workflow.assignee}
+          </span>
+        )}
+      </div>
+
+      {(workflow.acknowledgedBy || workflow.resolvedBy) && (
+        <div className="alert-workflow-meta">
+          {workflow.acknowledgedBy && workflow.acknowledgedAt && (
+            <div>
+              Acknowledged by {workflow.acknowledgedBy} ·{" "}
+              {formatTime(workflow.acknowledgedAt)}
+            </div>
+          )}
+          {workflow.resolvedBy && workflow.resolvedAt && (
+            <div>
+              Resolved by {workflow.resolvedBy} ·{" "}
+              {formatTime(workflow.resolvedAt)}
+            </div>
+          )}
+        </div>
+      )}
+
+      {workflow.notes.length > 0 && (
+        <ul className="alert-workflow-notes">
+          {workflow.notes.map((note, index) => (
+            <li key={`${note.createdAt}-${index}`}>
+              <span className="alert-workflow-note-author">
+                {note.author} · {formatTime(note.createdAt)}
+              </span>
+              {note.text}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!canAct ? null : editing ? (
+        <form className="alert-workflow-form" onSubmit={handleSubmit}>
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={
+              editing === "assign" ? "Colleague's name or email" : "Add a note"
+            }
+            autoFocus
+            disabled={saving}
+          />
+          <button type="submit" disabled={saving}>
+            Save
+          </button>
+          <button
+            type="button"
+            className="alert-workflow-cancel"
+            onClick={() => setEditing(null)}
+            disabled={saving}
+          >
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <div className="alert-workflow-actions">
+          {workflow.status === "open" && (
+            <button
+              onClick={() =>
+                run(() => alertHistoryService.acknowledge(record.id))
+              }
+              disabled={saving}
+            >
+              Acknowledge
+            </button>
+          )}
+          {!isResolved && (
+            <button onClick={() => startEditing("assign")} disabled={saving}>
+              {workflow.assignee ? "Reassign" : "Assign"}
+            </button>
+          )}
+          <button onClick={() => startEditing("note")} disabled={saving}>
+            Add note
+          </button>
+          {!isResolved && (
+            <button
+              onClick={() => run(() => alertHistoryService.resolve(record.id))}
+              disabled={saving}
+            >
+              Resolve
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <div className="alert-workflow-error">{error}</div>}
+    </div>
+  );
+}
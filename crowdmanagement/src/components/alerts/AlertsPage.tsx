@@ -0,0 +1,389 @@
+import { useState, useEffect, useMemo } from "react";
+import { useNavigate, useLocation } from "react-router-dom";
+import { authService } from "../../services/auth.service";
+import { alertHistoryService } from "../../services/alertHistory.service";
+import { socketService } from "../../services/socket.service";
+import { Sidebar } from "../dashboard/Sidebar";
+import { TopHeader } from "../dashboard/TopHeader";
+import { DateRangePicker } from "../dashboard/DateRangePicker";
+import { resolveDateRange } from "../../utils/dateRange";
+import type { DateRangeSelection } from "../../utils/dateRange";
+import {
+  ALERT_ACTIONS,
+  ALERT_SEVERITIES,
+  formatEventName,
+  getSeverityClass,
+} from "../../utils/alertFormat";
+import { formatInTimezone } from "../../utils/time";
+import { useDisplayTimezone } from "../../hooks/useDisplayTimezone";
+import { useAlertHistory } from "../../hooks/useAlertHistory";
+import { useSession } from "../../hooks/useSession";
+import { AlertWorkflowControls } from "./AlertWorkflowControls";
+import { AlertToastRulesForm } from "./AlertToastRulesForm";
+import { AlertAlarmSettingsForm } from "./AlertAlarmSettingsForm";
+import "../entries/CrowdEntries.css";
+import "../dashboard/AlertsPanel.css";
+import "./AlertsPage.css";
+
+const ALERTS_PAGE_SIZE = 20;
+const SECURITY_LEVELS = ["low", "medium", "high"];
+
+interface AlertFilters {
+  severity: string;
+  status: string; // Workflow status of high/critical alerts
+  action: string;
+  zoneId: string;
+  securityLevel: string;
+  search: string;
+}
+
+const EMPTY_FILTERS: AlertFilters = {
+  severity: "",
+  status: "",
+  action: "",
+  zoneId: "",
+  securityLevel: "",
+  search: "",
+};
+
+export function AlertsPage() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { collapsed, alertFilters } = location.state || {};
+  const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(
+    collapsed ?? false
+  );
+  const { siteId, site } = useSession();
+  const { timezone } = useDisplayTimezone();
+  const { alerts } = useAlertHistory(siteId);
+  const siteZones = useMemo(() => site?.zones || [], [site]);
+
+  // Alerts are kept for a few days, so default to the whole last week
+  const [rangeSelection, setRangeSelection] = useState<DateRangeSelection>({
+    preset: "last7",
+  });
+  const dateRange = useMemo(
+    () => resolveDateRange(rangeSelection, timezone),
+    [rangeSelection, timezone]
+  );
+  // Other pages can link to a pre-filtered list (e.g. unacknowledged critical)
+  const [filters, setFilters] = useState<AlertFilters>({
+    ...EMPTY_FILTERS,
+    ...alertFilters,
+  });
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    return authService.onSiteChange(() => {
+      setFilters(EMPTY_FILTERS);
+      setPage(1);
+    });
+  }, []);
+
+  // Leaving the page counts as having seen the site's alerts
+  useEffect(() => {
+    return () => {
+      if (siteId) {
+        alertHistoryService.markAllRead(siteId).catch((error) => {
+          console.warn("AlertsPage: Failed to mark alerts read:", error);
+        });
+      }
+    };
+  }, [siteId]);
+
+  // Zones configured for the site plus any only seen in alerts
+  const zoneOptions = useMemo(() => {
+    const zones = new Map<string, string>();
+    siteZones.forEach((zone) => zones.set(zone.zoneId, zone.name));
+    alerts.forEach(({ event }) => {
+      if (event.zone.id && !zones.has(event.zone.id)) {
+        zones.set(event.zone.id, event.zone.name || event.zone.id);
+      }
+    });
+    return [...zones.entries()]
+      .map(([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [siteZones, alerts]);
+
+  const filteredAlerts = useMemo(() => {
+    const search = filters.search.trim().toLowerCase();
+    return alerts.filter(({ event, receivedAt, workflow }) => {
+      const eventTime = Date.parse(event.timestamp) || receivedAt;
+      if (eventTime < dateRange.fromUtc || eventTime > dateRange.toUtc) {
+        return false;
+      }
+      if (filters.severity && event.severity !== filters.severity) {
+        return false;
+      }
+      if (filters.status && workflow?.status !== filters.status) {
+        return false;
+      }
+      if (filters.action && event.action !== filters.action) {
+        return false;
+      }
+      if (filters.zoneId && event.zone.id !== filters.zoneId) {
+        return false;
+      }
+      if (
+        filters.securityLevel &&
+        (event.zone.securityLevel || "low").toLowerCase() !==
+          filters.securityLevel
+      ) {
+        return false;
+      }
+      if (search) {
+        const haystack = `${event.personName || ""} ${
+          event.message || ""
+        }`.toLowerCase();
+        if (!haystack.includes(search)) {
+          return false;
+        }
+      }
+      return true;
+    });
+  }, [alerts, filters, dateRange]);
+
+  const totalPages = Math.ceil(filteredAlerts.length / ALERTS_PAGE_SIZE);
+  // Stay in range when new filters leave fewer pages
+  const currentPage = Math.min(page, Math.max(1, totalPages));
+  const pageAlerts = filteredAlerts.slice(
+    (currentPage - 1) * ALERTS_PAGE_SIZE,
+    currentPage * ALERTS_PAGE_SIZE
+  );
+
+  const updateFilter = (key: keyof AlertFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const handleDateRangeChange = (selection: DateRangeSelection) => {
+    setRangeSelection(selection);
+    setPage(1);
+  };
+
+  const hasFilters =
+    Object.values(filters).some((value) => value !== "") ||
+    rangeSelection.preset !== "last7";
+
+  const handleLogout = () => {
+    // Disconnect socket before logout
+    socketService.disconnect();
+    authService.logout();
+    navigate("/login", { replace: true });
+  };
+
+  return (
+    <div
+      className={`entries-layout ${
+        isSidebarCollapsed ? "sidebar-collapsed" : ""
+      }`}
+    >
+      <Sidebar
+        onLogout={handleLogout}
+        isCollapsed={isSidebarCollapsed}
+        onToggleCollapse={() => setIsSidebarCollapsed(!isSidebarCollapsed)}
+      />
+      <div
+        className={
+          isSidebarCollapsed ? "entries-containercoll" : "entries-container"
+        }
+      >
+        <TopHeader />
+        <div className="entries-content">
+          <div className="entries-title-section">
+            <h1 className="entries-main-title">Alerts</h1>
+            <DateRangePicker
+              value={dateRange}
+              onChange={handleDateRangeChange}
+            />
+          </div>
+
+          <AlertToastRulesForm zones={zoneOptions} />
+          <AlertAlarmSettingsForm />
+
+          <div className="alerts-filters">
+            <input
+              type="search"
+              className="alerts-search"
+              placeholder="Search person or message"
+              value={filters.search}
+              onChange={(e) => updateFilter("search", e.target.value)}
+            />
+            <select
+              value={filters.severity}
+              onChange={(e) => updateFilter("severity", e.target.value)}
+              aria-label="Severity"
+            >
+              <option value="">All severities</option>
+              {ALERT_SEVERITIES.map((severity) => (
+                <option key={severity} value={severity}>
+                  {severity}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.status}
+              onChange={(e) => updateFilter("status", e.target.value)}
+              aria-label="Status"
+            >
+              <option value="">All statuses</option>
+              <option value="open">Unacknowledged</option>
+              <option value="acknowledged">Acknowledged</option>
+              <option value="resolved">Resolved</option>
+            </select>
+            <select
+              value={filters.action}
+              onChange={(e) => updateFilter("action", e.target.value)}
+              aria-label="Action"
+            >
+              <option value="">All actions</option>
+              {ALERT_ACTIONS.map((action) => (
+                <option key={action.value} value={action.value}>
+                  {action.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.zoneId}
+              onChange={(e) => updateFilter("zoneId", e.target.value)}
+              aria-label="Zone"
+            >
+              <option value="">All zones</option>
+              {zoneOptions.map((zone) => (
+                <option key={zone.id} value={zone.id}>
+                  {zone.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.securityLevel}
+              onChange={(e) => updateFilter("securityLevel", e.target.value)}
+              aria-label="Security level"
+            >
+              <option value="">All security levels</option>
+              {SECURITY_LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  {level}
+                </option>
+              ))}
+            </select>
+            {hasFilters && (
+              <button
+                className="alerts-clear-filters"
+                onClick={() => {
+                  setFilters(EMPTY_FILTERS);
+                  setRangeSelection({ preset: "last7" });
+                  setPage(1);
+                }}
+              >
+                Clear filters
+              </button>
+            )}
+          </div>
+
+          <div className="table-container">
+            <table className="entries-table">
+              <thead>
+                <tr>
+                  <th>Time</th>
+                  <th>Event</th>
+                  <th>Zone</th>
+                  <th>Security</th>
+                  <th>Severity</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pageAlerts.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="no-data">
+                      {alerts.length === 0
+                        ? "No alerts recorded for this site yet"
+                        : "No alerts match the filters"}
+                    </td>
+                  </tr>
+                ) : (
+                  pageAlerts.map((record) => {
+                    const alert = record.event;
+                    return (
+                      <tr
+                        key={record.id}
+                        className={record.read ? "" : "alerts-row-unread"}
+                      >
+                        <td>
+                          {formatInTimezone(
+                            alert.timestamp,
+                            timezone,
+                            "DD MMM YYYY, hh:mm a"
+                          )}
+                        </td>
+                        <td>
+                          <div className="alerts-event">
+                            {formatEventName(alert)}
+                          </div>
+                          {alert.message && (
+                            <div className="alerts-message">
+                              {alert.message}
+                            </div>
+                          )}
+                        </td>
+                        <td>{alert.zone.name || "--"}</td>
+                        <td className="alerts-security">
+                          {alert.zone.securityLevel || "low"}
+                        </td>
+                        <td>
+                          <span
+                            className={`alert-card-severity ${getSeverityClass(
+                              alert.severity
+                            )}`}
+                          >
+                            {alert.severity}
+                          </span>
+                        </td>
+                        <td className="alerts-status-cell">
+                          {record.workflow ? (
+                            <AlertWorkflowControls
+                              record={record}
+                              timezone={timezone}
+                            />
+                          ) : (
+                            "--"
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {totalPages > 1 && (
+            <div className="pagination">
+              <button
+                onClick={() => setPage(Math.max(1, currentPage - 1))}
+                disabled={currentPage === 1}
+                className="pagination-arrow"
+                aria-label="Previous page"
+              >
+                ‹
+              </button>
+              <span className="alerts-page-indicator">
+                Page {currentPage} of {totalPages} · {filteredAlerts.length}{" "}
+                alerts
+              </span>
+              <button
+                onClick={() => setPage(Math.min(totalPages, currentPage + 1))}
+                disabled={currentPage >= totalPages}
+                className="pagination-arrow"
+                aria-label="Next page"
+              >
+                ›
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useState } from "react";
 import type { FormEvent } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useLocation } from "react-router-dom";
 import { authService } from "../../services/auth.service";
+import { getReturnPath } from "../../utils/loginRedirect";
 import loginBackgroundImage from "../../assets/loginPageBackgroundImage.png";
 import "./Login.css";
 
@@ -12,6 +13,13 @@ export function Login() {
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
   const navigate = useNavigate();
+  const location = useLocation();
+  // Why the user was sent back here, if they were signed out automatically
+  const signedOutMessage = location.state?.sessionExpired
+    ? "Your session has expired. Please log in again."
+    : location.state?.idleTimeout
+    ? "You were signed out after a period of inactivity."
+    : null;
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
@@ -21,12 +29,14 @@ export function Login() {
     try {
       console.log("Login: Attempting login...");
       await authService.login({ email, password });
-      console.log("Login: Login successful, navigating to dashboard");
+      // Back to the page that sent the user here (deep link, expired session)
+      const returnPath = getReturnPath(location.state);
+      console.log("Login: Login successful, navigating to", returnPath);
 
       // Small delay to ensure token is stored
       await new Promise((resolve) => setTimeout(resolve, 100));
 
-      navigate("/dashboard");
+      navigate(returnPath, { replace: true });
     } catch (err) {
       console.error("Login: Login failed:", err);
       let errorMessage = "Login failed. Please try again.";
@@ -132,6 +142,9 @@ export function Login() {
               </div>
 
               {error && <div className="error-message">{error}</div>}
+              {signedOutMessage && !error && (
+                <div className="info-message">{signedOutMessage}</div>
+              )}
 
               <button type="submit" className="login-button" disabled={loading}>
                 {loading ? "Logging in..." : "Login"}
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { useNavigate, useLocation } from "react-router-dom";
+import { authService } from "../../services/auth.service";
+import { socketService } from "../../services/socket.service";
+import { toReturnPath } from "../../utils/loginRedirect";
+import { useSession } from "../../hooks/useSession";
+import { Sidebar } from "../dashboard/Sidebar";
+import { TopHeader } from "../dashboard/TopHeader";
+import "../entries/CrowdEntries.css";
+import "./NotAuthorized.css";
+
+/**
+ * Shown in place of a page the signed-in user's role does not allow.
+ * Stays on the requested URL so signing in with another account can retry it.
+ */
+export function NotAuthorized() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { collapsed } = location.state || {};
+  const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(
+    collapsed ?? false
+  );
+  const { role } = useSession();
+
+  const handleLogout = () => {
+    // Disconnect socket before logout
+    socketService.disconnect();
+    authService.logout();
+    navigate("/login", { replace: true });
+  };
+
+  // Signing in with an account that has the role retries this page
+  const handleSwitchUser = () => {
+    socketService.disconnect();
+    authService.logout();
+    navigate("/login", {
+      replace: true,
+      state: { from: toReturnPath(location) },
+    });
+  };
+
+  return (
+    <div
+      className={`entries-layout ${
+        isSidebarCollapsed ? "sidebar-collapsed" : ""
+      }`}
+    >
+      <Sidebar
+        onLogout={handleLogout}
+        isCollapsed={isSidebarCollapsed}
+        onToggleCollapse={() => setIsSidebarCollapsed(!isSidebarCollapsed)}
+      />
+      <div
+        className={
+          isSidebarCollapsed ? "entries-containercoll" : "entries-container"
+        }
+      >
+        <TopHeader />
+        <div className="entries-content">
+          <div className="not-authorized">
+            <h1>Not authorized</h1>
+            <p>
+              Your role (<strong>{role}</strong>) does not give access to this
+              page. Ask an administrator if you need it.
+            </p>
+            <div className="not-authorized-actions">
+              <button
+                className="not-authorized-primary"
+                onClick={() =>
+                  navigate("/dashboard", {
+                    state: { collapsed: isSidebarCollapsed },
+                  })
+                }
+              >
+                Back to overview
+              </button>
+              <button onClick={handleSwitchUser}>
+                Sign in as a different user
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
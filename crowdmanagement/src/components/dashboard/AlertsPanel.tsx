@@ -1,55 +1,25 @@
-import { useEffect, useState } from "react";
-import type { SocketAlertEvent, Site } from "../../types/api";
-import moment from "moment";
-import { authService } from "../../services/auth.service";
-import axios from "axios";
+import type { SocketAlertEvent } from "../../types/api";
+import { formatInTimezone } from "../../utils/time";
+import { formatEventName, getSeverityClass } from "../../utils/alertFormat";
+import type { AlertRecord } from "../../services/alertHistory.service";
+import { AlertWorkflowControls } from "../alerts/AlertWorkflowControls";
+import { useSession } from "../../hooks/useSession";
 import "./AlertsPanel.css";
 
 interface AlertsPanelProps {
-  alerts: SocketAlertEvent[];
+  alerts: AlertRecord[]; // Stored alert history of the active site, newest first
+  timezone?: string | null; // Render times in this timezone (site or viewer)
   isOpen: boolean;
   onClose: () => void;
 }
 
-export function AlertsPanel({ alerts, isOpen, onClose }: AlertsPanelProps) {
-  const [sitesCache, setSitesCache] = useState<Map<string, string>>(new Map());
-
-  // Fetch sites when panel opens
-  useEffect(() => {
-    if (isOpen && sitesCache.size === 0) {
-      fetchSites();
-    }
-  }, [isOpen]);
-
-  const fetchSites = async () => {
-    try {
-      const token = authService.getToken();
-      if (!token) return;
-
-      const API_BASE_URL =
-        import.meta.env.VITE_API_BASE_URL || "http://localhost:3000/api";
-      const response = await axios.get<Site[]>(`${API_BASE_URL}/sites`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-
-      const sites = Array.isArray(response.data)
-        ? response.data
-        : [response.data];
-      const cache = new Map<string, string>();
-
-      sites.forEach((site) => {
-        if (site.siteId && site.name) {
-          cache.set(site.siteId, site.name);
-        }
-      });
-
-      setSitesCache(cache);
-    } catch (error) {
-      console.warn("AlertsPanel: Failed to fetch sites:", error);
-    }
-  };
+export function AlertsPanel({
+  alerts,
+  timezone = null,
+  isOpen,
+  onClose,
+}: AlertsPanelProps) {
+  const { siteId: activeSiteId, sites } = useSession();
 
   const getSiteName = (alert: SocketAlertEvent): string => {
     // Try multiple ways to get site name
@@ -57,86 +27,15 @@ export function AlertsPanel({ alerts, isOpen, onClose }: AlertsPanelProps) {
       return alert.site.name;
     }
 
-    const siteId = alert.site?.id || (alert as any).siteId;
-    if (siteId && sitesCache.has(siteId)) {
-      return sitesCache.get(siteId) || "Unknown Site";
-    }
-
-    // Fallback to stored siteId from authService
-    const storedSiteId = authService.getSiteId();
-    if (storedSiteId && sitesCache.has(storedSiteId)) {
-      return sitesCache.get(storedSiteId) || "Unknown Site";
-    }
-
-    return "Unknown Site";
+    // Fall back to the active site for events without a site id
+    const siteId = alert.site.id || activeSiteId;
+    const site = sites.find((s) => s.siteId === siteId);
+    return site?.name || "Unknown Site";
   };
 
   const formatTimestamp = (timestamp: string | undefined): string => {
     if (!timestamp) return "";
-    try {
-      return moment(timestamp).format("DD MMM YYYY, hh:mm a");
-    } catch (error) {
-      return "";
-    }
-  };
-
-  const formatEventName = (alert: SocketAlertEvent): string => {
-    // First, try to use personName if available
-    if (alert.personName) {
-      const actionFormatted = (alert.action || "activity").replace("_", "-");
-      return `${alert.personName} ${actionFormatted}`;
-    }
-
-    const message = alert.message || "";
-    const action = alert.action || "activity";
-
-    // Try multiple patterns to extract person name from message
-    // Pattern 1: "Name action" (e.g., "John Doe exit", "Amelia Halvorson Sr. exit")
-    let nameMatch = message.match(
-      /^([A-Za-z\s\.]+?)\s+(entry|exit|zone-entry|zone-exit|zone_activity)/i
-    );
-
-    // Pattern 2: "action by Name" (e.g., "exit by John Doe")
-    if (!nameMatch) {
-      nameMatch = message.match(
-        /(entry|exit|zone-entry|zone-exit|zone_activity)\s+by\s+([A-Za-z\s\.]+)/i
-      );
-      if (nameMatch && nameMatch[2]) {
-        const personName = nameMatch[2].trim();
-        const actionFormatted = action.replace("_", "-");
-        return `${personName} ${actionFormatted}`;
-      }
-    }
-
-    // Pattern 3: Check if message starts with a name (capitalized words, may include titles like "Sr.", "Jr.")
-    if (!nameMatch) {
-      nameMatch = message.match(
-        /^([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*(?:\s+(?:Sr\.|Jr\.|II|III|IV))?)/
-      );
-    }
-
-    if (nameMatch && nameMatch[1]) {
-      const personName = nameMatch[1].trim();
-      const actionFormatted = action.replace("_", "-");
-      return `${personName} ${actionFormatted}`;
-    }
-
-    // Fallback: use action with generic name
-    const actionFormatted = action.replace("_", "-");
-    return `Person ${actionFormatted}`;
-  };
-
-  const getSeverityClass = (severity: string): string => {
-    switch (severity?.toLowerCase()) {
-      case "high":
-      case "critical":
-        return "severity-high";
-      case "medium":
-        return "severity-medium";
-      case "low":
-      default:
-        return "severity-low";
-    }
+    return formatInTimezone(timestamp, timezone, "DD MMM YYYY, hh:mm a");
   };
 
   if (!isOpen) return null;
@@ -171,7 +70,8 @@ export function AlertsPanel({ alerts, isOpen, onClose }: AlertsPanelProps) {
             </div>
           ) : (
             <div className="alerts-list">
-              {alerts.map((alert, index) => {
+              {alerts.map((record) => {
+                const alert = record.event;
                 const siteName = getSiteName(alert);
                 const securityLevel = alert.zone?.securityLevel || "LOW";
                 const location = `${siteName} ${securityLevel} Zone · ${siteName}`;
@@ -181,8 +81,10 @@ export function AlertsPanel({ alerts, isOpen, onClose }: AlertsPanelProps) {
 
                 return (
                   <div
-                    key={`${alert.timestamp}-${index}`}
-                    className="alert-card"
+                    key={record.id}
+                    className={`alert-card ${
+                      record.read ? "" : "alert-card-unread"
+                    }`}
                   >
                     <div className="alert-card-timestamp">{timestamp}</div>
                     <div className="alert-card-event">{eventName}</div>
@@ -194,6 +96,10 @@ export function AlertsPanel({ alerts, isOpen, onClose }: AlertsPanelProps) {
                     >
                       {severity}
                     </div>
+                    <AlertWorkflowControls
+                      record={record}
+                      timezone={timezone}
+                    />
                   </div>
                 );
               })}
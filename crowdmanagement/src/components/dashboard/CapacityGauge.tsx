@@ -0,0 +1,76 @@
+import {
+  CAPACITY_BAND_COLORS,
+  getCapacityBand,
+  getOccupancyPercentage,
+} from "../../utils/capacity";
+import type { CapacityThresholds } from "../../utils/capacity";
+
+interface CapacityGaugeProps {
+  occupancy: number | null;
+  capacity: number;
+  thresholds: CapacityThresholds;
+}
+
+const RADIUS = 40;
+const CENTER_X = 50;
+const CENTER_Y = 50;
+
+// Point on the gauge arc for a percentage (0 = left end, 100 = right end)
+function arcPoint(percent: number) {
+  const angle = Math.PI * (1 - Math.min(Math.max(percent, 0), 100) / 100);
+  return {
+    x: CENTER_X + RADIUS * Math.cos(angle),
+    y: CENTER_Y - RADIUS * Math.sin(angle),
+  };
+}
+
+function arcPath(fromPercent: number, toPercent: number) {
+  const start = arcPoint(fromPercent);
+  const end = arcPoint(toPercent);
+  return `M ${start.x} ${start.y} A ${RADIUS} ${RADIUS} 0 0 1 ${end.x} ${end.y}`;
+}
+
+/**
+ * Half-circle gauge of occupancy as a percentage of capacity, with the
+ * warning and critical bands marked along the track
+ */
+export function CapacityGauge({
+  occupancy,
+  capacity,
+  thresholds,
+}: CapacityGaugeProps) {
+  const percentage = getOccupancyPercentage(occupancy, capacity);
+  const band = getCapacityBand(occupancy, capacity, thresholds) ?? "normal";
+  const { warningPercent, criticalPercent } = thresholds;
+
+  return (
+    <div className={`capacity-gauge capacity-${band}`}>
+      <svg viewBox="0 0 100 56" role="img" aria-label="Capacity gauge">
+        <path d={arcPath(0, 100)} className="capacity-gauge-track" />
+        <path
+          d={arcPath(warningPercent, criticalPercent)}
+          className="capacity-gauge-band"
+          stroke={CAPACITY_BAND_COLORS.warning}
+        />
+        <path
+          d={arcPath(criticalPercent, 100)}
+          className="capacity-gauge-band"
+          stroke={CAPACITY_BAND_COLORS.critical}
+        />
+        {percentage !== null && percentage > 0 && (
+          <path
+            d={arcPath(0, percentage)}
+            className="capacity-gauge-value"
+            stroke={CAPACITY_BAND_COLORS[band]}
+          />
+        )}
+        <text x={CENTER_X} y={CENTER_Y - 4} className="capacity-gauge-text">
+          {percentage !== null ? `${percentage}%` : "--"}
+        </text>
+      </svg>
+      <div className="capacity-gauge-caption">
+        of {capacity.toLocaleString()} capacity
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,12 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import moment from "moment";
 import { analyticsService } from "../../services/analytics.service";
 import { socketService } from "../../services/socket.service";
 import { authService } from "../../services/auth.service";
+import { alertHistoryService } from "../../services/alertHistory.service";
 import type {
   SocketLiveOccupancyEvent,
-  SocketAlertEvent,
   AnalyticsDemographicsResponse,
 } from "../../types/api";
 import { SummaryCards } from "./SummaryCards";
@@ -15,6 +15,19 @@ import { DemographicsChart } from "./DemographicsChart";
 import { Sidebar } from "./Sidebar";
 import { TopHeader } from "./TopHeader";
 import { AlertsPanel } from "./AlertsPanel";
+import { DateRangePicker } from "./DateRangePicker";
+import { ZoneSelector } from "./ZoneSelector";
+import { formatDateRangeLabel, isLiveRange } from "../../utils/dateRange";
+import type { DateRangeSelection } from "../../utils/dateRange";
+import { useDisplayTimezone } from "../../hooks/useDisplayTimezone";
+import { useDateRange } from "../../hooks/useDateRange";
+import { useViewQuery } from "../../hooks/useViewQuery";
+import { useSession } from "../../hooks/useSession";
+import { getViewRangeDays, getViewRangeSelection } from "../../utils/viewQuery";
+import { useAlertHistory } from "../../hooks/useAlertHistory";
+import { useTrendBaseline } from "../../hooks/useTrendBaseline";
+import { useCapacity } from "../../hooks/useCapacity";
+import { mergeOccupancyPoints, toOccupancyPoints } from "../../utils/occupancy";
 import { useLocation } from "react-router-dom";
 import "./Dashboard.css";
 
@@ -31,10 +44,8 @@ export function Dashboard() {
   >([]);
   const [demographicsData, setDemographicsData] =
     useState<AnalyticsDemographicsResponse | null>(null);
-  const [allAlerts, setAllAlerts] = useState<SocketAlertEvent[]>([]);
   const [showAlertsPanel, setShowAlertsPanel] = useState(false);
-  const showAlertsPanelRef = useRef(false);
-  const location = useLocation(); 
+  const location = useLocation();
   const { collapsed } = location.state || {};
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(
     collapsed ?? false
@@ -49,14 +60,45 @@ export function Dashboard() {
 
   const [showSiteIdInput, setShowSiteIdInput] = useState(false);
 
+  const { initialView, syncViewQuery } = useViewQuery();
+  const { siteId } = useSession();
+  // Timezone reported by the analytics API, used if the site has none configured
+  const [responseTimezone, setResponseTimezone] = useState<string | null>(null);
+  const { timezone, isResolved: isTimezoneResolved } =
+    useDisplayTimezone(responseTimezone);
+  const { dateRange, setDateRangeSelection } = useDateRange(
+    timezone,
+    getViewRangeSelection(initialView)
+  );
+  const { alerts } = useAlertHistory(siteId);
+  const { previous, comparison, comparisonLabel } = useTrendBaseline(
+    siteId,
+    dateRange,
+    isTimezoneResolved
+  );
+  const { capacity, thresholds: capacityThresholds } = useCapacity(siteId);
+
+  // Follow the site switcher: drop live values that belong to the previous site
+  useEffect(() => {
+    return authService.onSiteChange((newSiteId) => {
+      console.log("Dashboard: Active site changed to:", newSiteId);
+      setLiveOccupancy(null);
+      setLiveOccupancyFromSocket(null);
+    });
+  }, []);
+
+  // Keep the URL a shareable link to this exact view
+  useEffect(() => {
+    syncViewQuery({ site: siteId, ...getViewRangeDays(dateRange) });
+  }, [syncViewQuery, siteId, dateRange]);
+
   const loadDashboardData = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
       setFailedCalls([]);
 
-      // Get siteId (required for dwell API)
-      const siteId = authService.getSiteId();
+      // siteId is required for all analytics APIs
       console.log("Dashboard: Loading data with siteId:", siteId);
 
       if (!siteId) {
@@ -70,9 +112,8 @@ export function Dashboard() {
         return;
       }
 
-      // Calculate UTC timestamps for today (start and end of day) using moment.js
-      const fromUtc = moment.utc().startOf("day").valueOf();
-      const toUtc = moment.utc().endOf("day").valueOf();
+      // UTC timestamps for the selected date range
+      const { fromUtc, toUtc } = dateRange;
 
       console.log("Dashboard: Starting API calls...");
       const apiBaseUrl =
@@ -215,6 +256,9 @@ export function Dashboard() {
       if (results[2].status === "fulfilled") {
         const occupancyResponse = results[2].value as any;
         console.log("Dashboard: Occupancy API response:", occupancyResponse);
+        if (typeof occupancyResponse?.timezone === "string") {
+          setResponseTimezone(occupancyResponse.timezone);
+        }
 
         // Safety checks for occupancy data - using buckets structure
         let occupancyValue: number | null = null;
@@ -372,184 +416,72 @@ export function Dashboard() {
       console.log("Dashboard: Setting loading to false");
       setLoading(false);
     }
-  }, []);
+  }, [dateRange, siteId]);
 
+  // Wait for the site's timezone so day boundaries are right on the first load
   useEffect(() => {
-    loadDashboardData();
-  }, [loadDashboardData]);
+    if (isTimezoneResolved) {
+      loadDashboardData();
+    }
+  }, [loadDashboardData, isTimezoneResolved]);
 
-  // Socket connection and event listeners
+  // Live occupancy from the session's socket, re-scoped whenever the site changes
   useEffect(() => {
-    console.log("Dashboard: Connecting to socket...");
-    socketService.connect();
-
-    // Check socket connection status after a short delay
-    setTimeout(() => {
-      const isConnected = socketService.isConnected();
-      console.log("Dashboard: Socket connection status:", isConnected);
-      if (!isConnected) {
-        console.warn(
-          "Dashboard: Socket is not connected. Live occupancy updates may not work."
-        );
-        console.warn("Dashboard: Make sure:");
-        console.warn("1. VITE_SOCKET_URL is set correctly in .env file");
-        console.warn("2. Socket.IO server is running");
-        console.warn("3. Simulation is started (GET /api/sim/start)");
-      }
-    }, 1000);
-
     const unsubscribeOccupancy = socketService.onLiveOccupancy(
-      (event: SocketLiveOccupancyEvent | any) => {
-        console.log("Dashboard: Received live occupancy event:", event);
-        console.log("Dashboard: Event type:", typeof event);
-        console.log(
-          "Dashboard: Event keys:",
-          event ? Object.keys(event) : "null"
-        );
-        console.log(
-          "Dashboard: Full event data:",
-          JSON.stringify(event, null, 2)
-        );
-
-        // Safety check for event and occupancy value
-        if (event && typeof event === "object") {
-          // Try multiple possible field names for occupancy
-          let occupancyValue: number | null = null;
-
-          // Check if event.occupancy exists and is a valid number (including 0)
-          if (event.occupancy !== undefined && event.occupancy !== null) {
-            const parsed =
-              typeof event.occupancy === "string"
-                ? parseFloat(event.occupancy)
-                : event.occupancy;
-            if (typeof parsed === "number" && !isNaN(parsed) && parsed >= 0) {
-              occupancyValue = parsed;
-              console.log(
-                "Dashboard: Found occupancy in event.occupancy:",
-                occupancyValue
-              );
-            }
-          }
-
-          // Try other possible field names
-          if (occupancyValue === null && (event as any).count !== undefined) {
-            const parsed =
-              typeof (event as any).count === "string"
-                ? parseFloat((event as any).count)
-                : (event as any).count;
-            if (typeof parsed === "number" && !isNaN(parsed) && parsed >= 0) {
-              occupancyValue = parsed;
-              console.log(
-                "Dashboard: Found occupancy in event.count:",
-                occupancyValue
-              );
-            }
-          }
-
-          if (occupancyValue === null && (event as any).current !== undefined) {
-            const parsed =
-              typeof (event as any).current === "string"
-                ? parseFloat((event as any).current)
-                : (event as any).current;
-            if (typeof parsed === "number" && !isNaN(parsed) && parsed >= 0) {
-              occupancyValue = parsed;
-              console.log(
-                "Dashboard: Found occupancy in event.current:",
-                occupancyValue
-              );
-            }
-          }
-
-          if (occupancyValue === null && (event as any).value !== undefined) {
-            const parsed =
-              typeof (event as any).value === "string"
-                ? parseFloat((event as any).value)
-                : (event as any).value;
-            if (typeof parsed === "number" && !isNaN(parsed) && parsed >= 0) {
-              occupancyValue = parsed;
-              console.log(
-                "Dashboard: Found occupancy in event.value:",
-                occupancyValue
-              );
-            }
-          }
-
-          // If event is a number directly (some servers send just the number)
-          if (
-            occupancyValue === null &&
-            typeof event === "number" &&
-            !isNaN(event) &&
-            event >= 0
-          ) {
-            occupancyValue = event;
-            console.log(
-              "Dashboard: Event is a number directly:",
-              occupancyValue
-            );
-          }
-
-          // Accept 0 as a valid value (occupancy can be 0)
-          if (occupancyValue !== null && occupancyValue >= 0) {
-            console.log(
-              "Dashboard: Setting live occupancy from socket:",
-              occupancyValue,
-              "(type:",
-              typeof occupancyValue,
-              ")"
-            );
-            setLiveOccupancyFromSocket(occupancyValue);
-            setLiveOccupancy(occupancyValue);
-          } else {
-            console.warn(
-              "Dashboard: Could not extract valid occupancy value from event:",
-              event,
-              "Extracted value:",
-              occupancyValue
-            );
-          }
-        } else if (typeof event === "number") {
-          // Handle case where event is just a number
-          if (!isNaN(event) && event >= 0) {
-            console.log(
-              "Dashboard: Event is a number, setting occupancy:",
-              event
-            );
-            setLiveOccupancyFromSocket(event);
-            setLiveOccupancy(event);
-          }
-        } else {
-          console.warn(
-            "Dashboard: Invalid socket event received:",
-            event,
-            "Type:",
-            typeof event
+      (event: SocketLiveOccupancyEvent) => {
+        // Ignore events that belong to another site
+        if (event.siteId && siteId && event.siteId !== siteId) {
+          console.log(
+            "Dashboard: Ignoring occupancy event for site:",
+            event.siteId
           );
+          return;
         }
-      }
-    );
-
-    const unsubscribeAlert = socketService.onAlert(
-      (event: SocketAlertEvent) => {
-        // Safety check for event
-        if (event && typeof event === "object") {
-          // Only add to all alerts list if panel is open (live updates only when viewing)
-          if (showAlertsPanelRef.current) {
-            setAllAlerts((prev) => {
-              const updated = [event, ...prev];
-              return updated.slice(0, 100);
-            });
-          }
-          // Don't show popup alert notification - only collect when panel is open
-        }
+        console.log(
+          "Dashboard: Setting live occupancy from socket:",
+          event.occupancy
+        );
+        setLiveOccupancyFromSocket(event.occupancy);
+        setLiveOccupancy(event.occupancy);
       }
     );
 
     return () => {
       unsubscribeOccupancy();
-      unsubscribeAlert();
-      socketService.disconnect();
     };
-  }, []);
+  }, [siteId]);
+
+  // Backfill the occupancy chart for the time the socket was down
+  useEffect(() => {
+    return socketService.onReconnect(
+      async ({ disconnectedAt, reconnectedAt }) => {
+        if (!siteId || !isLiveRange(dateRange)) {
+          return;
+        }
+        // Refetch from the top of the hour; that bucket was incomplete
+        const fromUtc = Math.max(
+          dateRange.fromUtc,
+          moment(disconnectedAt).startOf("hour").valueOf()
+        );
+        console.log("Dashboard: Backfilling occupancy since:", fromUtc);
+        try {
+          const response = await analyticsService.getOccupancy({
+            siteId,
+            fromUtc,
+            toUtc: reconnectedAt,
+          });
+          const buckets = Array.isArray(response?.buckets)
+            ? response.buckets
+            : [];
+          setOccupancyData((prev) =>
+            mergeOccupancyPoints(prev, toOccupancyPoints(buckets))
+          );
+        } catch (error) {
+          console.warn("Dashboard: Failed to backfill occupancy:", error);
+        }
+      }
+    );
+  }, [siteId, dateRange]);
 
   const handleLogout = () => {
     // Disconnect socket before logout
@@ -558,11 +490,31 @@ export function Dashboard() {
     navigate("/login", { replace: true });
   };
 
+  // Alerts count as read once the panel showing them is closed
+  const markAlertsRead = () => {
+    if (siteId) {
+      alertHistoryService.markAllRead(siteId).catch((error) => {
+        console.warn("Dashboard: Failed to mark alerts read:", error);
+      });
+    }
+  };
+
+  const handleDateRangeChange = (selection: DateRangeSelection) => {
+    setDateRangeSelection(selection);
+  };
+
+  const isLive = isLiveRange(dateRange);
+
   const handleSetSiteId = () => {
-    if (siteIdInput.trim()) {
-      authService.setSiteId(siteIdInput.trim());
+    const newSiteId = siteIdInput.trim();
+    if (newSiteId) {
       setShowSiteIdInput(false);
-      loadDashboardData();
+      if (newSiteId === siteId) {
+        loadDashboardData();
+      } else {
+        // Triggers a reload through the site change subscription
+        authService.setSiteId(newSiteId);
+      }
     }
   };
 
@@ -758,11 +710,12 @@ export function Dashboard() {
       />
 
       <AlertsPanel
-        alerts={allAlerts}
+        alerts={alerts}
+        timezone={timezone}
         isOpen={showAlertsPanel}
         onClose={() => {
           setShowAlertsPanel(false);
-          showAlertsPanelRef.current = false;
+          markAlertsRead();
         }}
       />
       <div
@@ -770,16 +723,16 @@ export function Dashboard() {
           isSidebarCollapsed ? "dashboard-containercoll" : "dashboard-container"
         }
       >
-        <TopHeader
-          alertsCount={allAlerts.length}
-          onNotificationClick={() => {
-            setShowAlertsPanel(true);
-            showAlertsPanelRef.current = true;
-          }}
-        />
+        <TopHeader onNotificationClick={() => setShowAlertsPanel(true)} />
         <div className="dashboard-content">
           <div className="dashboard-title-section">
-            <h1 className="dashboard-main-title">Overview</h1>
+            <div className="dashboard-title-row">
+              <h1 className="dashboard-main-title">Overview</h1>
+              <DateRangePicker
+                value={dateRange}
+                onChange={handleDateRangeChange}
+              />
+            </div>
             <h2 className="dashboard-subtitle">Occupancy</h2>
           </div>
           {/* Retry button for failed API calls */}
@@ -799,6 +752,12 @@ export function Dashboard() {
             liveOccupancy={liveOccupancy}
             todayFootfall={todayFootfall}
             avgDwellTime={avgDwellTime}
+            periodLabel={formatDateRangeLabel(dateRange)}
+            previous={previous}
+            comparison={comparison}
+            comparisonLabel={comparisonLabel}
+            capacity={capacity}
+            capacityThresholds={capacityThresholds}
           />
 
           <div className="charts-section">
@@ -806,13 +765,24 @@ export function Dashboard() {
               <h2>Overall Occupancy</h2>
               <OccupancyChart
                 data={occupancyData}
-                liveOccupancy={liveOccupancy}
+                liveOccupancy={isLive ? liveOccupancy : null}
+                timezone={timezone}
+                capacity={capacity}
+                capacityThresholds={capacityThresholds}
               />
             </div>
 
             <div className="chart-container chart-container-full">
               <h2 className="demographics-main-title">Demographics</h2>
-              <DemographicsChart data={demographicsData} />
+              <DemographicsChart data={demographicsData} timezone={timezone} />
+            </div>
+
+            <div className="chart-container chart-container-full">
+              <h2>Zones</h2>
+              <ZoneSelector
+                dateRange={dateRange}
+                isSidebarCollapsed={isSidebarCollapsed}
+              />
             </div>
           </div>
         </div>
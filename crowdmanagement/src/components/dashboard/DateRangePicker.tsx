@@ -0,0 +1,148 @@
+import { useState, useEffect, useRef } from "react";
+import {
+  DATE_RANGE_PRESETS,
+  formatDateRangeLabel,
+  toDateInputValue,
+  todayDateInputValue,
+} from "../../utils/dateRange";
+import type {
+  DateRange,
+  DateRangePreset,
+  DateRangeSelection,
+} from "../../utils/dateRange";
+import "./DateRangePicker.css";
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (selection: DateRangeSelection) => void;
+  disabled?: boolean;
+}
+
+export function DateRangePicker({
+  value,
+  onChange,
+  disabled = false,
+}: DateRangePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [customFrom, setCustomFrom] = useState(
+    toDateInputValue(value.fromUtc, value.timezone)
+  );
+  const [customTo, setCustomTo] = useState(
+    toDateInputValue(value.toUtc, value.timezone)
+  );
+  const wrapperRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        wrapperRef.current &&
+        !wrapperRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const handlePresetClick = (preset: DateRangePreset) => {
+    if (preset === "custom") {
+      return;
+    }
+    onChange({ preset });
+    setIsOpen(false);
+  };
+
+  const handleApplyCustom = () => {
+    if (!customFrom || !customTo) {
+      return;
+    }
+    onChange({ preset: "custom", from: customFrom, to: customTo });
+    setIsOpen(false);
+  };
+
+  // Dates are picked in the timezone the range is displayed in
+  const today = todayDateInputValue(value.timezone);
+
+  return (
+    <div className="date-range-picker" ref={wrapperRef}>
+      <button
+        className="date-range-button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+      >
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="none">
+          <rect
+            x="3"
+            y="4"
+            width="18"
+            height="18"
+            rx="2"
+            stroke="currentColor"
+            strokeWidth="2"
+          />
+          <path
+            d="M16 2V6M8 2V6M3 10H21"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+          />
+        </svg>
+        <span>{formatDateRangeLabel(value)}</span>
+      </button>
+
+      {isOpen && (
+        <div className="date-range-dropdown">
+          {DATE_RANGE_PRESETS.filter((p) => p.value !== "custom").map(
+            (preset) => (
+              <button
+                key={preset.value}
+                className={`date-range-item ${
+                  value.preset === preset.value ? "active" : ""
+                }`}
+                onClick={() => handlePresetClick(preset.value)}
+              >
+                {preset.label}
+              </button>
+            )
+          )}
+          <div className="date-range-custom">
+            <span className="date-range-custom-title">Custom</span>
+            <label>
+              From
+              <input
+                type="date"
+                value={customFrom}
+                max={today}
+                onChange={(e) => setCustomFrom(e.target.value)}
+              />
+            </label>
+            <label>
+              To
+              <input
+                type="date"
+                value={customTo}
+                max={today}
+                onChange={(e) => setCustomTo(e.target.value)}
+              />
+            </label>
+            <button
+              className="date-range-apply"
+              onClick={handleApplyCustom}
+              disabled={!customFrom || !customTo}
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
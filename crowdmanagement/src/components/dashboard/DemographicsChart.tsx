@@ -12,20 +12,37 @@ import {
   AreaChart,
 } from "recharts";
 import type { AnalyticsDemographicsResponse } from "../../types/api";
-import { format } from "date-fns";
+import { formatInTimezone } from "../../utils/time";
 
 interface DemographicsChartProps {
   data: AnalyticsDemographicsResponse | null;
+  timezone?: string | null; // Render times in this timezone (site or viewer)
 }
 
 const MALE_COLOR = "#14b8a6"; // Teal
 const FEMALE_COLOR = "#06b6d4"; // Light blue-green
 
-export function DemographicsChart({ data }: DemographicsChartProps) {
+export function DemographicsChart({
+  data,
+  timezone = null,
+}: DemographicsChartProps) {
   if (!data || !Array.isArray(data.buckets) || data.buckets.length === 0) {
     return <div className="chart-no-data">No demographics data available</div>;
   }
 
+  // Include the day on the axis when the buckets span several days
+  const firstDay = formatInTimezone(
+    data.buckets[0].utc,
+    timezone,
+    "YYYY-MM-DD"
+  );
+  const lastDay = formatInTimezone(
+    data.buckets[data.buckets.length - 1].utc,
+    timezone,
+    "YYYY-MM-DD"
+  );
+  const axisFormat = firstDay !== lastDay ? "DD MMM HH:mm" : "HH:mm";
+
   // Calculate total from all buckets for pie chart
   const totalMale = data.buckets.reduce((sum: number, bucket: any) => {
     const male =
@@ -59,17 +76,12 @@ export function DemographicsChart({ data }: DemographicsChartProps) {
   const timeseriesData = data.buckets
     .filter((bucket: any) => bucket && bucket.utc)
     .map((bucket: any) => {
-      let time = "";
-      if (bucket.utc) {
-        try {
-          time = format(new Date(bucket.utc), "HH:mm");
-        } catch (error) {
-          console.warn(
-            "Invalid UTC timestamp in demographics bucket:",
-            bucket.utc
-          );
-          time = "";
-        }
+      const time = formatInTimezone(bucket.utc, timezone, axisFormat);
+      if (!time) {
+        console.warn(
+          "Invalid UTC timestamp in demographics bucket:",
+          bucket.utc
+        );
       }
       return {
         time,
@@ -204,14 +216,13 @@ export function DemographicsChart({ data }: DemographicsChartProps) {
                     (d) => d && d.time === value
                   );
                   if (point?.timestamp) {
-                    try {
-                      return format(
-                        new Date(point.timestamp),
-                        "MMM dd, yyyy HH:mm"
-                      );
-                    } catch (error) {
-                      return value;
-                    }
+                    return (
+                      formatInTimezone(
+                        point.timestamp,
+                        timezone,
+                        "MMM DD, YYYY HH:mm z"
+                      ) || value
+                    );
                   }
                   return value;
                 }}
@@ -7,21 +7,42 @@ import {
   Tooltip,
   Legend,
   ResponsiveContainer,
+  ReferenceLine,
 } from "recharts";
 // OccupancyChart now receives transformed data with timestamp and occupancy
-import { format } from "date-fns";
+import { formatInTimezone } from "../../utils/time";
+import { CAPACITY_BAND_COLORS, getThresholdCount } from "../../utils/capacity";
+import type { CapacityThresholds } from "../../utils/capacity";
 
 interface OccupancyChartProps {
   data: { timestamp: string; occupancy: number }[];
   liveOccupancy: number | null;
+  timezone?: string | null; // Render times in this timezone (site or viewer)
+  capacity?: number | null; // Draws the warning/critical threshold lines when known
+  capacityThresholds?: CapacityThresholds;
 }
 
-export function OccupancyChart({ data, liveOccupancy }: OccupancyChartProps) {
+export function OccupancyChart({
+  data,
+  liveOccupancy,
+  timezone = null,
+  capacity = null,
+  capacityThresholds,
+}: OccupancyChartProps) {
   // Safety check for empty data
   if (!Array.isArray(data) || data.length === 0) {
     return <div className="chart-no-data">No occupancy data available</div>;
   }
 
+  // Include the day on the axis when the data spans several days
+  const firstDay = formatInTimezone(data[0]?.timestamp, timezone, "YYYY-MM-DD");
+  const lastDay = formatInTimezone(
+    data[data.length - 1]?.timestamp,
+    timezone,
+    "YYYY-MM-DD"
+  );
+  const axisFormat = firstDay !== lastDay ? "DD MMM HH:mm" : "HH:mm";
+
   // Transform data for chart with safety checks
   const chartData = data
     .filter(
@@ -32,16 +53,16 @@ export function OccupancyChart({ data, liveOccupancy }: OccupancyChartProps) {
         !isNaN(point.occupancy)
     )
     .map((point) => {
-      try {
-        return {
-          time: format(new Date(point.timestamp), "HH:mm"),
-          timestamp: point.timestamp,
-          occupancy: point.occupancy,
-        };
-      } catch (error) {
+      const time = formatInTimezone(point.timestamp, timezone, axisFormat);
+      if (!time) {
         console.warn("Invalid timestamp in occupancy data:", point.timestamp);
         return null;
       }
+      return {
+        time,
+        timestamp: point.timestamp,
+        occupancy: point.occupancy,
+      };
     })
     .filter((point): point is NonNullable<typeof point> => point !== null);
 
@@ -71,6 +92,30 @@ export function OccupancyChart({ data, liveOccupancy }: OccupancyChartProps) {
     );
   }
 
+  const thresholdLines =
+    capacity && capacityThresholds
+      ? [
+          {
+            label: `Warning (${capacityThresholds.warningPercent}%)`,
+            value: getThresholdCount(
+              capacity,
+              capacityThresholds.warningPercent
+            ),
+            color: CAPACITY_BAND_COLORS.warning,
+          },
+          {
+            label: `Critical (${capacityThresholds.criticalPercent}%)`,
+            value: getThresholdCount(
+              capacity,
+              capacityThresholds.criticalPercent
+            ),
+            color: CAPACITY_BAND_COLORS.critical,
+          },
+        ]
+      : [];
+  // Keep the threshold lines in view even while occupancy is well below them
+  const highestThreshold = Math.max(0, ...thresholdLines.map((l) => l.value));
+
   return (
     <div className="chart-wrapper">
       <ResponsiveContainer width="100%" height={300}>
@@ -87,25 +132,42 @@ export function OccupancyChart({ data, liveOccupancy }: OccupancyChartProps) {
           <YAxis
             label={{ value: "Count", angle: -90, position: "insideLeft" }}
             stroke="#666"
+            domain={[
+              0,
+              (dataMax: number) => Math.max(dataMax, highestThreshold),
+            ]}
           />
           <Tooltip
             labelFormatter={(value) => {
               if (!value) return "Unknown";
               const point = chartData.find((d) => d && d.time === value);
               if (point?.timestamp) {
-                try {
-                  return format(
-                    new Date(point.timestamp),
-                    "MMM dd, yyyy HH:mm"
-                  );
-                } catch (error) {
-                  return value;
-                }
+                return (
+                  formatInTimezone(
+                    point.timestamp,
+                    timezone,
+                    "MMM DD, YYYY HH:mm z"
+                  ) || value
+                );
               }
               return value;
             }}
           />
           <Legend />
+          {thresholdLines.map((line) => (
+            <ReferenceLine
+              key={line.label}
+              y={line.value}
+              stroke={line.color}
+              strokeDasharray="6 4"
+              label={{
+                value: line.label,
+                position: "insideTopRight",
+                fill: line.color,
+                fontSize: 12,
+              }}
+            />
+          ))}
           <Line
             type="monotone"
             dataKey="occupancy"
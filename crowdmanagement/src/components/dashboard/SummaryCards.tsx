@@ -1,49 +1,74 @@
+import { preferencesService } from "../../services/preferences.service";
+import type { PeriodMetrics } from "../../hooks/useTrendBaseline";
+import { computeTrend, TREND_COMPARISONS } from "../../utils/trends";
+import type { Trend, TrendComparison } from "../../utils/trends";
+import type { CapacityThresholds } from "../../utils/capacity";
+import { CapacityGauge } from "./CapacityGauge";
+
 interface SummaryCardsProps {
   liveOccupancy: number | null;
   todayFootfall: number | null;
   avgDwellTime: number | null;
+  periodLabel?: string; // Label of the selected date range (e.g. "Today")
+  previous?: PeriodMetrics | null; // Metrics of the comparison period, null while loading
+  comparison?: TrendComparison;
+  comparisonLabel?: string; // e.g. "yesterday"
+  capacity?: number | null; // Shows an occupancy gauge when known
+  capacityThresholds?: CapacityThresholds;
+}
+
+function TrendIndicator({
+  trend,
+  comparisonLabel,
+}: {
+  trend: Trend | null;
+  comparisonLabel: string;
+}) {
+  // Neutral state: the comparison period has no data to compare against
+  if (!trend) {
+    return (
+      <div className="trend-indicator trend-neutral">
+        <span className="trend-text">No data for {comparisonLabel}</span>
+      </div>
+    );
+  }
+  if (trend.direction === "flat") {
+    return (
+      <div className="trend-indicator trend-neutral">
+        <span className="trend-text">Same as {comparisonLabel}</span>
+      </div>
+    );
+  }
+  const isUp = trend.direction === "up";
+  return (
+    <div className={`trend-indicator ${isUp ? "trend-up" : "trend-down"}`}>
+      <span className="trend-arrow"></span>
+      <span className="trend-text">
+        {trend.percentage}% {isUp ? "more" : "less"} than {comparisonLabel}
+      </span>
+    </div>
+  );
 }
 
 export function SummaryCards({
   liveOccupancy,
   todayFootfall,
   avgDwellTime,
+  periodLabel = "Today",
+  previous = null,
+  comparison = "previous",
+  comparisonLabel = "yesterday",
+  capacity = null,
+  capacityThresholds,
 }: SummaryCardsProps) {
-  // Mock trend data - in real app, this would come from API comparing with yesterday
-  // For now, we'll show positive trends as examples
-  const getTrend = (
-    value: number | null
-  ): { direction: "up" | "down"; percentage: number } | null => {
-    if (value === null) return null;
-    // Mock: positive trend for occupancy and dwell time, negative for footfall
-    if (value === liveOccupancy) {
-      return { direction: "up", percentage: 10 };
-    }
-    if (value === todayFootfall) {
-      return { direction: "down", percentage: 10 };
-    }
-    if (value === avgDwellTime) {
-      return { direction: "up", percentage: 6 };
-    }
-    return null;
-  };
-
-  const TrendIndicator = ({
-    trend,
-  }: {
-    trend: { direction: "up" | "down"; percentage: number } | null;
-  }) => {
-    if (!trend) return null;
-    const isUp = trend.direction === "up";
-    return (
-      <div className={`trend-indicator ${isUp ? "trend-up" : "trend-down"}`}>
-        <span className="trend-arrow"></span>
-        <span className="trend-text">
-          {trend.percentage}% {isUp ? "more" : "less"} than yesterday
-        </span>
-      </div>
-    );
-  };
+  // Trends stay hidden until the comparison period has loaded
+  const renderTrend = (current: number | null, metric: keyof PeriodMetrics) =>
+    previous ? (
+      <TrendIndicator
+        trend={computeTrend(current, previous[metric])}
+        comparisonLabel={comparisonLabel}
+      />
+    ) : null;
 
   const formatDwellTimeDisplay = (minutes: number | null): string => {
     if (minutes === null) return "N/A";
@@ -51,32 +76,63 @@ export function SummaryCards({
   };
 
   return (
-    <div className="summary-cards">
-      <div className="summary-card">
-        <div className="card-content">
-          <h3>Live Occupancy</h3>
-          <p className="card-value">
-            {liveOccupancy !== null ? liveOccupancy.toLocaleString() : "N/A"}
-          </p>
-          <TrendIndicator trend={getTrend(liveOccupancy)} />
-        </div>
+    <div className="summary-cards-section">
+      <div className="trend-comparison">
+        <label htmlFor="trend-comparison-select">Compare with</label>
+        <select
+          id="trend-comparison-select"
+          value={comparison}
+          onChange={(e) =>
+            preferencesService.updatePreferences({
+              trendComparison: e.target.value as TrendComparison,
+            })
+          }
+        >
+          {TREND_COMPARISONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
       </div>
+      <div className="summary-cards">
+        <div className="summary-card">
+          <div className="card-content">
+            <h3>Live Occupancy</h3>
+            <p className="card-value">
+              {liveOccupancy !== null ? liveOccupancy.toLocaleString() : "N/A"}
+            </p>
+            {capacity !== null && capacityThresholds && (
+              <CapacityGauge
+                occupancy={liveOccupancy}
+                capacity={capacity}
+                thresholds={capacityThresholds}
+              />
+            )}
+            {renderTrend(liveOccupancy, "occupancy")}
+          </div>
+        </div>
 
-      <div className="summary-card">
-        <div className="card-content">
-          <h3>Today's Footfall</h3>
-          <p className="card-value">
-            {todayFootfall !== null ? todayFootfall.toLocaleString() : "N/A"}
-          </p>
-          <TrendIndicator trend={getTrend(todayFootfall)} />
+        <div className="summary-card">
+          <div className="card-content">
+            <h3>
+              {periodLabel === "Today"
+                ? "Today's Footfall"
+                : `Footfall (${periodLabel})`}
+            </h3>
+            <p className="card-value">
+              {todayFootfall !== null ? todayFootfall.toLocaleString() : "N/A"}
+            </p>
+            {renderTrend(todayFootfall, "footfall")}
+          </div>
         </div>
-      </div>
 
-      <div className="summary-card">
-        <div className="card-content">
-          <h3>Avg Dwell Time</h3>
-          <p className="card-value">{formatDwellTimeDisplay(avgDwellTime)}</p>
-          <TrendIndicator trend={getTrend(avgDwellTime)} />
+        <div className="summary-card">
+          <div className="card-content">
+            <h3>Avg Dwell Time</h3>
+            <p className="card-value">{formatDwellTimeDisplay(avgDwellTime)}</p>
+            {renderTrend(avgDwellTime, "avgDwellTime")}
+          </div>
         </div>
       </div>
     </div>
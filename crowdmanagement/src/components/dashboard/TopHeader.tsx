@@ -1,27 +1,105 @@
 import { useState, useEffect, useRef } from "react";
+import { useNavigate } from "react-router-dom";
+import { preferencesService } from "../../services/preferences.service";
+import type { ConnectionStatus } from "../../services/socket.service";
+import type { TimeDisplayMode } from "../../services/preferences.service";
+import type { AuthUser, Site } from "../../types/api";
+import { useAlertHistory } from "../../hooks/useAlertHistory";
+import { useSession } from "../../hooks/useSession";
+import { getRejectedEventCounts } from "../../utils/socketEvents";
+import { getTimezoneAbbreviation, getViewerTimezone } from "../../utils/time";
 import "./TopHeader.css";
 
+const CONNECTION_LABELS: Record<ConnectionStatus, string> = {
+  connecting: "Connecting",
+  live: "Live",
+  reconnecting: "Reconnecting",
+  offline: "Offline",
+};
+
+// Initials of the user's name, or the first letter of their email
+function getUserInitials(user: AuthUser | null): string {
+  const words = (user?.name || "").trim().split(/\s+/).filter(Boolean);
+  if (words.length > 0) {
+    return words
+      .slice(0, 2)
+      .map((word) => word[0])
+      .join("")
+      .toUpperCase();
+  }
+  return (user?.email || "?")[0].toUpperCase();
+}
+
+// Malformed live events are dropped; say so where operators look for feed problems
+function getConnectionTitle(): string {
+  const { occupancy, alert } = getRejectedEventCounts();
+  const rejected = occupancy + alert;
+  return rejected > 0
+    ? `Live updates connection · ${rejected} malformed event${
+        rejected === 1 ? "" : "s"
+      } ignored (${alert} alert, ${occupancy} occupancy)`
+    : "Live updates connection";
+}
+
 interface TopHeaderProps {
-  siteName?: string;
-  alertsCount?: number;
-  onNotificationClick?: () => void;
+  onNotificationClick?: () => void; // Defaults to opening the Alerts page
 }
 
-export function TopHeader({
-  siteName = "Dubai Mall",
-  alertsCount = 0,
-  onNotificationClick,
-}: TopHeaderProps) {
+export function TopHeader({ onNotificationClick }: TopHeaderProps) {
+  const navigate = useNavigate();
   const [showLocationDropdown, setShowLocationDropdown] = useState(false);
   const locationDropdownRef = useRef<HTMLDivElement>(null);
+  const {
+    user,
+    siteId: activeSiteId,
+    site: activeSite,
+    sites,
+    sitesLoading,
+    connectionStatus,
+    selectSite,
+  } = useSession();
+  const [timeDisplay, setTimeDisplay] = useState<TimeDisplayMode>(
+    preferencesService.getPreferences().timeDisplay
+  );
+  const [alarmsMuted, setAlarmsMuted] = useState(
+    preferencesService.getPreferences().alertAlarms.muted
+  );
+  const { unreadCount, unacknowledgedCriticalCount } =
+    useAlertHistory(activeSiteId);
+  useEffect(() => {
+    return preferencesService.onChange((preferences) => {
+      setTimeDisplay(preferences.timeDisplay);
+      setAlarmsMuted(preferences.alertAlarms.muted);
+    });
+  }, []);
+
+  const siteName = activeSite
+    ? activeSite.name
+    : sitesLoading
+    ? "Loading sites..."
+    : "Select site";
+
+  const siteTimezone = activeSite?.timezone || null;
+  const viewerTimezone = getViewerTimezone();
 
-  const locations = [
-    "Dubai Mall",
-    "San Francisco International Airport",
-    "Phoenix Marketcity Bengaluru",
-    "Tokyo Station",
-    "Marina Bay Sands",
-  ];
+  const handleTimeDisplayChange = (mode: TimeDisplayMode) => {
+    preferencesService.updatePreferences({ timeDisplay: mode });
+  };
+
+  const handleMuteToggle = () => {
+    const { alertAlarms } = preferencesService.getPreferences();
+    preferencesService.updatePreferences({
+      alertAlarms: { ...alertAlarms, muted: !alertAlarms.muted },
+    });
+  };
+
+  const handleSiteSelect = (site: Site) => {
+    setShowLocationDropdown(false);
+    if (site.siteId !== activeSiteId) {
+      console.log("TopHeader: Switching site to:", site.siteId);
+      selectSite(site.siteId);
+    }
+  };
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -84,32 +162,126 @@ export function TopHeader({
 
           {showLocationDropdown && (
             <div className="location-dropdown">
-              {locations.map((location) => (
-                <button
-                  key={location}
-                  className={`location-item ${
-                    location === siteName ? "active" : ""
-                  }`}
-                  onClick={() => {
-                    setShowLocationDropdown(false);
-                  }}
-                >
-                  {location}
-                </button>
-              ))}
+              {sites.length === 0 ? (
+                <div className="location-empty">
+                  {sitesLoading ? "Loading sites..." : "No sites available"}
+                </div>
+              ) : (
+                sites.map((site) => (
+                  <button
+                    key={site.siteId}
+                    className={`location-item ${
+                      site.siteId === activeSiteId ? "active" : ""
+                    }`}
+                    onClick={() => handleSiteSelect(site)}
+                  >
+                    <span className="location-item-name">{site.name}</span>
+                    {(site.city || site.country) && (
+                      <span className="location-item-meta">
+                        {[site.city, site.country].filter(Boolean).join(", ")}
+                      </span>
+                    )}
+                  </button>
+                ))
+              )}
             </div>
           )}
         </div>
       </div>
 
-      <div className="top-header-center"></div>
+      <div className="top-header-center">
+        <div className="time-display-toggle" role="group" aria-label="Times">
+          <button
+            className={`time-display-option ${
+              timeDisplay === "site" ? "active" : ""
+            }`}
+            onClick={() => handleTimeDisplayChange("site")}
+            title={siteTimezone || "Site timezone unknown"}
+          >
+            Site time
+            {siteTimezone && (
+              <span className="time-display-zone">
+                {getTimezoneAbbreviation(siteTimezone)}
+              </span>
+            )}
+          </button>
+          <button
+            className={`time-display-option ${
+              timeDisplay === "local" ? "active" : ""
+            }`}
+            onClick={() => handleTimeDisplayChange("local")}
+            title={viewerTimezone}
+          >
+            My time
+            <span className="time-display-zone">
+              {getTimezoneAbbreviation(viewerTimezone)}
+            </span>
+          </button>
+        </div>
+      </div>
 
       <div className="top-header-right">
+        <div
+          className={`connection-badge connection-${connectionStatus}`}
+          title={getConnectionTitle()}
+        >
+          <span className="connection-dot"></span>
+          {CONNECTION_LABELS[connectionStatus]}
+        </div>
+        {unacknowledgedCriticalCount > 0 && (
+          <button
+            className="critical-alerts-counter"
+            title="Critical alerts nobody has acknowledged yet"
+            onClick={() =>
+              navigate("/alerts", {
+                state: {
+                  alertFilters: { severity: "critical", status: "open" },
+                },
+              })
+            }
+          >
+            {unacknowledgedCriticalCount} unacknowledged critical
+          </button>
+        )}
+        <button
+          className={`mute-button ${alarmsMuted ? "muted" : ""}`}
+          aria-label={alarmsMuted ? "Unmute alarms" : "Mute alarms"}
+          aria-pressed={alarmsMuted}
+          title={alarmsMuted ? "Alarm sounds are muted" : "Mute alarm sounds"}
+          onClick={handleMuteToggle}
+        >
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
+            <path
+              d="M11 5L6 9H2V15H6L11 19V5Z"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+            {alarmsMuted ? (
+              <path
+                d="M23 9L17 15M17 9L23 15"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            ) : (
+              <path
+                d="M15.54 8.46C16.4774 9.39764 17.004 10.6692 17.004 11.995C17.004 13.3208 16.4774 14.5924 15.54 15.53M19.07 4.93C20.9447 6.80528 21.9979 9.34836 21.9979 12C21.9979 14.6516 20.9447 17.1947 19.07 19.07"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            )}
+          </svg>
+        </button>
         <div className="notification-icon-wrapper">
           <button
             className="notification-button"
             aria-label="Notifications"
-            onClick={onNotificationClick}
+            onClick={onNotificationClick ?? (() => navigate("/alerts"))}
           >
             <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
               <path
@@ -127,15 +299,18 @@ export function TopHeader({
                 strokeLinejoin="round"
               />
             </svg>
-            {alertsCount > 0 && (
+            {unreadCount > 0 && (
               <span className="notification-badge">
-                {alertsCount > 99 ? "99+" : alertsCount}
+                {unreadCount > 99 ? "99+" : unreadCount}
               </span>
             )}
           </button>
         </div>
-        <div className="user-avatar">
-          <span>P</span>
+        <div
+          className="user-avatar"
+          title={user ? user.name || user.email : "Not signed in"}
+        >
+          <span>{getUserInitials(user)}</span>
         </div>
       </div>
     </div>
@@ -0,0 +1,151 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useSession } from "../../hooks/useSession";
+import { analyticsService } from "../../services/analytics.service";
+import type { Zone } from "../../types/api";
+import type { DateRange } from "../../utils/dateRange";
+import { getSecurityLevelClass } from "../../utils/securityLevel";
+import "./ZoneSelector.css";
+
+interface ZoneSelectorProps {
+  dateRange: DateRange;
+  isSidebarCollapsed?: boolean;
+}
+
+interface ZoneSummary {
+  zone: Zone;
+  footfall: number | null;
+}
+
+export function ZoneSelector({
+  dateRange,
+  isSidebarCollapsed = false,
+}: ZoneSelectorProps) {
+  const [zoneSummaries, setZoneSummaries] = useState<ZoneSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+  const { siteId, site, sitesLoading } = useSession();
+
+  // Load the zones of the active site with their footfall for the selected range
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadZones = async () => {
+      if (sitesLoading) {
+        return;
+      }
+      if (!siteId) {
+        setZoneSummaries([]);
+        setLoading(false);
+        return;
+      }
+
+      setLoading(true);
+      try {
+        const zones = site?.zones || [];
+
+        const results = await Promise.allSettled(
+          zones.map((zone) =>
+            analyticsService.getFootfall({
+              siteId,
+              fromUtc: dateRange.fromUtc,
+              toUtc: dateRange.toUtc,
+              zoneId: zone.zoneId,
+            })
+          )
+        );
+
+        const summaries = zones.map((zone, index) => {
+          const result = results[index];
+          const footfall =
+            result.status === "fulfilled" &&
+            typeof result.value?.footfall === "number"
+              ? result.value.footfall
+              : null;
+          return { zone, footfall };
+        });
+
+        // Busiest zones first so congestion stands out
+        summaries.sort((a, b) => (b.footfall ?? -1) - (a.footfall ?? -1));
+
+        if (!cancelled) {
+          setZoneSummaries(summaries);
+        }
+      } catch (error) {
+        console.warn("ZoneSelector: Failed to load zones:", error);
+        if (!cancelled) {
+          setZoneSummaries([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadZones();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [siteId, site, sitesLoading, dateRange]);
+
+  const maxFootfall = Math.max(
+    0,
+    ...zoneSummaries.map((summary) => summary.footfall ?? 0)
+  );
+
+  if (loading) {
+    return <div className="zone-selector-empty">Loading zones...</div>;
+  }
+
+  if (zoneSummaries.length === 0) {
+    return (
+      <div className="zone-selector-empty">No zones configured for site</div>
+    );
+  }
+
+  return (
+    <div className="zone-selector">
+      {zoneSummaries.map(({ zone, footfall }) => {
+        const share =
+          footfall !== null && maxFootfall > 0
+            ? Math.round((footfall / maxFootfall) * 100)
+            : 0;
+
+        return (
+          <button
+            key={zone.zoneId}
+            className="zone-card"
+            onClick={() =>
+              navigate(`/zones/${encodeURIComponent(zone.zoneId)}`, {
+                state: { collapsed: isSidebarCollapsed },
+              })
+            }
+          >
+            <div className="zone-card-header">
+              <span className="zone-card-name">{zone.name}</span>
+              <span
+                className={`zone-security-badge ${getSecurityLevelClass(
+                  zone.securityLevel
+                )}`}
+              >
+                {zone.securityLevel || "low"}
+              </span>
+            </div>
+            <div className="zone-card-value">
+              {footfall !== null ? footfall.toLocaleString() : "N/A"}
+              <span className="zone-card-unit">footfall</span>
+            </div>
+            <div className="zone-card-bar">
+              <div
+                className="zone-card-bar-fill"
+                style={{ width: `${share}%` }}
+              ></div>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
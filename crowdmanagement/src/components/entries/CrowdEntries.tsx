@@ -1,23 +1,87 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
-import moment from "moment";
 import { analyticsService } from "../../services/analytics.service";
 import { authService } from "../../services/auth.service";
 import { socketService } from "../../services/socket.service";
+import { preferencesService } from "../../services/preferences.service";
+import type { EntriesViewSettings } from "../../services/preferences.service";
 import type { CrowdEntry } from "../../types/api";
-import { format } from "date-fns";
 import { Sidebar } from "../dashboard/Sidebar";
 import { TopHeader } from "../dashboard/TopHeader";
+import { DateRangePicker } from "../dashboard/DateRangePicker";
+import { ExportEntriesButton } from "./ExportEntriesButton";
+import { EntriesFilterBar } from "./EntriesFilterBar";
+import { PersonDetailDrawer } from "./PersonDetailDrawer";
+import { EntriesTableHead } from "./EntriesTableHead";
+import { EntryRow } from "./EntryRow";
+import { VirtualEntriesTable } from "./VirtualEntriesTable";
+import { isLiveRange } from "../../utils/dateRange";
+import type { DateRangeSelection } from "../../utils/dateRange";
+import { useDisplayTimezone } from "../../hooks/useDisplayTimezone";
+import { useDateRange } from "../../hooks/useDateRange";
+import { useInfiniteEntries } from "../../hooks/useInfiniteEntries";
+import { useViewQuery } from "../../hooks/useViewQuery";
+import { useSession } from "../../hooks/useSession";
+import { getViewRangeDays, getViewRangeSelection } from "../../utils/viewQuery";
+import { getEntryTimeFormat } from "../../utils/entryFormat";
+import {
+  EMPTY_ENTRY_FILTERS,
+  filterEntries,
+  getNextEntrySort,
+  needsClientSideQuery,
+  sortEntries,
+} from "../../utils/entryFilters";
+import type {
+  EntryFilters,
+  EntrySort,
+  EntrySortKey,
+} from "../../utils/entryFilters";
+import {
+  closeLiveEntry,
+  hasLiveEntry,
+  isEntryExitEvent,
+  toLiveEntry,
+} from "../../utils/liveEntries";
 import "./CrowdEntries.css";
 
+const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+
 export function CrowdEntries() {
+  // Shared links restore the site, range, page and zone
+  const { initialView, syncViewQuery } = useViewQuery();
   const [entries, setEntries] = useState<CrowdEntry[]>([]);
   const [loading, setLoading] = useState(true);
-  const [page, setPage] = useState(1);
-  const [pageSize] = useState(10);
-  const [, setTotalRecords] = useState(0);
+  const [page, setPage] = useState(initialView.page || 1);
+  const [entriesView, setEntriesView] = useState<EntriesViewSettings>(
+    preferencesService.getPreferences().entriesView
+  );
+  const { pageSize } = entriesView;
+  const isScrollMode = entriesView.mode === "scroll";
+  const [totalRecords, setTotalRecords] = useState(0);
   const [totalPages, setTotalPages] = useState(0);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
+  const { siteId, site, hasPermission } = useSession();
+  const zones = site?.zones || [];
+  const [filters, setFilters] = useState<EntryFilters>({
+    ...EMPTY_ENTRY_FILTERS,
+    zoneId: initialView.zone || "",
+  });
+  const [sort, setSort] = useState<EntrySort | null>(null);
+  // Every record of the range, fetched when filtering or sorting in the browser
+  const [allEntries, setAllEntries] = useState<CrowdEntry[]>([]);
+  const [selectedPerson, setSelectedPerson] = useState<{
+    personId: string;
+    personName: string;
+  } | null>(null);
+  const {
+    timezone,
+    siteTimezone,
+    isResolved: isTimezoneResolved,
+  } = useDisplayTimezone();
+  const { dateRange, setDateRangeSelection } = useDateRange(
+    timezone,
+    getViewRangeSelection(initialView)
+  );
   const navigate = useNavigate();
   const location = useLocation();
   const { collapsed } = location.state || {};
@@ -29,12 +93,36 @@ export function CrowdEntries() {
     }
   }, [collapsed]);
 
+  // Reload from the first page when the site switcher changes the active site
+  useEffect(() => {
+    return authService.onSiteChange((newSiteId) => {
+      setSelectedPerson(null);
+      // Opening a shared link switches to its site; keep the rest of its view
+      if (newSiteId === initialView.site) {
+        return;
+      }
+      setFilters(EMPTY_ENTRY_FILTERS);
+      setPage(1);
+    });
+  }, [initialView.site]);
+
+  // Keep the URL a shareable link to this exact view
+  useEffect(() => {
+    syncViewQuery({
+      site: siteId,
+      ...getViewRangeDays(dateRange),
+      page,
+      zone: filters.zoneId,
+    });
+  }, [syncViewQuery, siteId, dateRange, page, filters.zoneId]);
+
+  // The API only filters by zone; anything else is applied to the whole range here
+  const isClientSideQuery = needsClientSideQuery(filters, sort);
+
   const loadEntries = useCallback(async () => {
     try {
       setLoading(true);
 
-      // Get siteId and calculate date range
-      const siteId = authService.getSiteId();
       if (!siteId) {
         console.error("No siteId found for entries");
         setEntries([]);
@@ -43,9 +131,8 @@ export function CrowdEntries() {
         return;
       }
 
-      // Calculate UTC timestamps for today (start and end of day) using moment.js
-      const fromUtc = moment.utc().startOf("day").valueOf();
-      const toUtc = moment.utc().endOf("day").valueOf();
+      // UTC timestamps for the selected date range
+      const { fromUtc, toUtc } = dateRange;
 
       const response = await analyticsService.getEntryExit({
         siteId,
@@ -53,6 +140,7 @@ export function CrowdEntries() {
         toUtc,
         pageNumber: page,
         pageSize,
+        zoneId: filters.zoneId || undefined,
       });
 
       // Safety checks for response data - using records instead of entries
@@ -77,89 +165,174 @@ export function CrowdEntries() {
     } finally {
       setLoading(false);
     }
-  }, [page, pageSize]);
+  }, [page, pageSize, dateRange, siteId, filters.zoneId]);
 
-  useEffect(() => {
-    loadEntries();
-  }, [loadEntries]);
-
-  // Format time as HH:MM AM/PM (for Entry/Exit columns)
-  const formatTime = (
-    dateString: string | null | undefined,
-    utcTimestamp?: number | null
-  ): string => {
-    // Try UTC timestamp first (new API format)
-    if (
-      utcTimestamp &&
-      typeof utcTimestamp === "number" &&
-      !isNaN(utcTimestamp)
-    ) {
+  const loadAllEntries = useCallback(
+    async (signal: AbortSignal) => {
       try {
-        return format(new Date(utcTimestamp), "hh:mm a");
-      } catch {
-        // Fall through to dateString
+        setLoading(true);
+
+        if (!siteId) {
+          setAllEntries([]);
+          return;
+        }
+
+        const { fromUtc, toUtc } = dateRange;
+        const records = await analyticsService.getAllEntryExit(
+          { siteId, fromUtc, toUtc, zoneId: filters.zoneId || undefined },
+          { signal }
+        );
+        setAllEntries(records);
+      } catch (error) {
+        if (signal.aborted) {
+          return;
+        }
+        console.error("Failed to load all entries:", error);
+        setAllEntries([]);
+      } finally {
+        if (!signal.aborted) {
+          setLoading(false);
+        }
       }
-    }
+    },
+    [dateRange, siteId, filters.zoneId]
+  );
 
-    // Fallback to dateString (old format or local time)
-    if (!dateString) return "--";
-    try {
-      const date = new Date(dateString);
-      if (isNaN(date.getTime())) return "--";
-      return format(date, "hh:mm a");
-    } catch {
-      return "--";
+  useEffect(() => {
+    // Wait for the site's timezone so day boundaries are right on the first load
+    if (isTimezoneResolved && !isClientSideQuery && !isScrollMode) {
+      loadEntries();
     }
-  };
+  }, [loadEntries, isTimezoneResolved, isClientSideQuery, isScrollMode]);
 
-  // Format dwell time as MM:SS
-  const formatDwellTime = (minutes: number | null | undefined): string => {
-    if (minutes === null || minutes === undefined || isNaN(minutes))
-      return "--";
-
-    const totalSeconds = Math.round(minutes * 60);
-    const mins = Math.floor(totalSeconds / 60);
-    const secs = totalSeconds % 60;
-    return `${String(mins).padStart(2, "0")}:${String(secs).padStart(2, "0")}`;
-  };
+  // Infinite scrolling over the API's pages; filtered and sorted lists are
+  // already fully loaded and only need virtualizing
+  const infiniteEntries = useInfiniteEntries(
+    siteId,
+    dateRange,
+    filters.zoneId,
+    pageSize,
+    isTimezoneResolved && !isClientSideQuery && isScrollMode
+  );
+  const { updateEntries: updateInfiniteEntries } = infiniteEntries;
 
-  // Generate initials for avatar
-  const getInitials = (name: string): string => {
-    if (!name || name === "Unknown") return "?";
-    const parts = name.trim().split(" ");
-    if (parts.length >= 2) {
-      return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+  // Search, filter and sort changes reuse the fetched records without a reload
+  useEffect(() => {
+    if (!isTimezoneResolved || !isClientSideQuery) {
+      return;
     }
-    return name.substring(0, 2).toUpperCase();
-  };
+    const controller = new AbortController();
+    loadAllEntries(controller.signal);
+    return () => controller.abort();
+  }, [loadAllEntries, isTimezoneResolved, isClientSideQuery]);
+
+  // Live entries that belong on page 1, counted while viewing another page
+  const isLive = isLiveRange(dateRange);
+  const liveKey = [
+    siteId,
+    dateRange.fromUtc,
+    filters.zoneId,
+    isClientSideQuery,
+    page,
+  ].join("|");
+  const [newEntries, setNewEntries] = useState<{
+    key: string;
+    count: number;
+  } | null>(null);
+  const newEntryCount =
+    page !== 1 && newEntries && newEntries.key === liveKey
+      ? newEntries.count
+      : 0;
 
-  // Get avatar color based on name
-  const getAvatarColor = (name: string): string => {
-    const colors = [
-      "#667eea",
-      "#f093fb",
-      "#4facfe",
-      "#43e97b",
-      "#fa709a",
-      "#fee140",
-      "#30cfd0",
-      "#a8edea",
-    ];
-    let hash = 0;
-    for (let i = 0; i < name.length; i++) {
-      hash = name.charCodeAt(i) + ((hash << 5) - hash);
+  // Insert rows for people entering and close the open rows of people leaving
+  useEffect(() => {
+    if (!siteId || !isLive) {
+      return;
     }
-    return colors[Math.abs(hash) % colors.length];
-  };
+    const countNewEntry = () =>
+      setNewEntries((prev) => ({
+        key: liveKey,
+        count: prev && prev.key === liveKey ? prev.count + 1 : 1,
+      }));
+
+    return socketService.onAlert((event) => {
+      if (!isEntryExitEvent(event)) {
+        return;
+      }
+      // Ignore events that belong to another site
+      if (event.site?.id && event.site.id !== siteId) {
+        return;
+      }
+      if (event.action === "exit") {
+        setEntries((prev) => closeLiveEntry(prev, event));
+        setAllEntries((prev) => closeLiveEntry(prev, event));
+        updateInfiniteEntries((prev) => closeLiveEntry(prev, event));
+        return;
+      }
+      if (filters.zoneId && event.zone?.id !== filters.zoneId) {
+        return;
+      }
+
+      const entry = toLiveEntry(event);
+      if (isClientSideQuery) {
+        setAllEntries((prev) =>
+          hasLiveEntry(prev, event) ? prev : [entry, ...prev]
+        );
+        if (
+          !isScrollMode &&
+          page !== 1 &&
+          filterEntries([entry], filters).length > 0
+        ) {
+          countNewEntry();
+        }
+      } else if (isScrollMode) {
+        // The scrolling list shows everything loaded so far, newest first
+        updateInfiniteEntries((prev) =>
+          hasLiveEntry(prev, event) ? prev : [entry, ...prev]
+        );
+      } else if (page === 1) {
+        // Page 1 lists the newest entries; keep it at one page of rows
+        setEntries((prev) =>
+          hasLiveEntry(prev, event) ? prev : [entry, ...prev].slice(0, pageSize)
+        );
+      } else {
+        countNewEntry();
+      }
+    });
+  }, [
+    siteId,
+    isLive,
+    liveKey,
+    filters,
+    isClientSideQuery,
+    isScrollMode,
+    page,
+    pageSize,
+    updateInfiniteEntries,
+  ]);
+
+  const matchingEntries = useMemo(
+    () =>
+      isClientSideQuery
+        ? sortEntries(filterEntries(allEntries, filters), sort)
+        : null,
+    [isClientSideQuery, allEntries, filters, sort]
+  );
+  const visibleEntries = matchingEntries
+    ? matchingEntries.slice((page - 1) * pageSize, page * pageSize)
+    : entries;
+  const pageCount = matchingEntries
+    ? Math.ceil(matchingEntries.length / pageSize)
+    : totalPages;
 
   // Generate pagination page numbers
   const getPaginationPages = (): (number | string)[] => {
     const pages: (number | string)[] = [];
     const maxVisible = 5;
 
-    if (totalPages <= maxVisible) {
+    if (pageCount <= maxVisible) {
       // Show all pages if total is small
-      for (let i = 1; i <= totalPages; i++) {
+      for (let i = 1; i <= pageCount; i++) {
         pages.push(i);
       }
     } else {
@@ -172,11 +345,11 @@ export function CrowdEntries() {
           pages.push(i);
         }
         pages.push("...");
-        pages.push(totalPages);
-      } else if (page >= totalPages - 2) {
+        pages.push(pageCount);
+      } else if (page >= pageCount - 2) {
         // Near the end
         pages.push("...");
-        for (let i = totalPages - 3; i <= totalPages; i++) {
+        for (let i = pageCount - 3; i <= pageCount; i++) {
           pages.push(i);
         }
       } else {
@@ -186,13 +359,45 @@ export function CrowdEntries() {
           pages.push(i);
         }
         pages.push("...");
-        pages.push(totalPages);
+        pages.push(pageCount);
       }
     }
 
     return pages;
   };
 
+  const handleDateRangeChange = (selection: DateRangeSelection) => {
+    setDateRangeSelection(selection);
+    setPage(1);
+  };
+
+  const handleFiltersChange = (newFilters: EntryFilters) => {
+    setFilters(newFilters);
+    setPage(1);
+  };
+
+  const closePersonDrawer = useCallback(() => setSelectedPerson(null), []);
+
+  const handleEntriesViewChange = (changes: Partial<EntriesViewSettings>) => {
+    const newView = { ...entriesView, ...changes };
+    setEntriesView(newView);
+    preferencesService.updatePreferences({ entriesView: newView });
+    setPage(1);
+  };
+
+  const handleSort = (key: EntrySortKey) => {
+    setSort(getNextEntrySort(sort, key));
+    setPage(1);
+  };
+
+  const timeFormat = getEntryTimeFormat(dateRange.fromUtc, dateRange.toUtc);
+  const isTableLoading =
+    isScrollMode && !isClientSideQuery ? infiniteEntries.loading : loading;
+  const emptyMessage =
+    matchingEntries && allEntries.length > 0
+      ? "No entries match the filters"
+      : "No entries found";
+
   const handleLogout = () => {
     // Disconnect socket before logout
     socketService.disconnect();
@@ -220,90 +425,132 @@ export function CrowdEntries() {
         <div className="entries-content">
           <div className="entries-title-section">
             <h1 className="entries-main-title">Crowd Entries</h1>
-            <button className="today-button-content">Today</button>
+            <div className="entries-actions">
+              {hasPermission("exportData") && (
+                <ExportEntriesButton
+                  siteId={siteId}
+                  dateRange={dateRange}
+                  siteTimezone={siteTimezone}
+                  filters={filters}
+                  sort={sort}
+                  tableCount={
+                    matchingEntries
+                      ? matchingEntries.length
+                      : isScrollMode
+                      ? null
+                      : totalRecords
+                  }
+                  disabled={isTableLoading}
+                />
+              )}
+              <DateRangePicker
+                value={dateRange}
+                onChange={handleDateRangeChange}
+                disabled={isTableLoading}
+              />
+            </div>
+          </div>
+
+          <EntriesFilterBar
+            filters={filters}
+            zones={zones}
+            onChange={handleFiltersChange}
+          />
+          {newEntryCount > 0 && (
+            <div className="entries-new-banner" role="status">
+              {newEntryCount} new {newEntryCount === 1 ? "entry" : "entries"}
+              <button onClick={() => setPage(1)}>Show</button>
+            </div>
+          )}
+          {matchingEntries && !isTableLoading && (
+            <div className="entries-match-count">
+              {matchingEntries.length.toLocaleString()} of{" "}
+              {allEntries.length.toLocaleString()} entries
+            </div>
+          )}
+
+          <div className="entries-view-options">
+            <label>
+              Rows per {isScrollMode ? "request" : "page"}
+              <select
+                value={pageSize}
+                onChange={(e) =>
+                  handleEntriesViewChange({ pageSize: Number(e.target.value) })
+                }
+              >
+                {PAGE_SIZE_OPTIONS.map((size) => (
+                  <option key={size} value={size}>
+                    {size}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="entries-view-mode" role="group" aria-label="View">
+              <button
+                className={!isScrollMode ? "active" : ""}
+                onClick={() => handleEntriesViewChange({ mode: "pages" })}
+                aria-pressed={!isScrollMode}
+              >
+                Pages
+              </button>
+              <button
+                className={isScrollMode ? "active" : ""}
+                onClick={() => handleEntriesViewChange({ mode: "scroll" })}
+                aria-pressed={isScrollMode}
+              >
+                Infinite scroll
+              </button>
+            </div>
           </div>
 
-          {loading ? (
+          {isTableLoading ? (
             <div className="loading">Loading entries...</div>
+          ) : isScrollMode ? (
+            <VirtualEntriesTable
+              entries={matchingEntries || infiniteEntries.entries}
+              timezone={timezone}
+              timeFormat={timeFormat}
+              sort={sort}
+              onSort={handleSort}
+              onOpenPerson={setSelectedPerson}
+              emptyMessage={emptyMessage}
+              hasMore={!matchingEntries && infiniteEntries.hasMore}
+              loadingMore={infiniteEntries.loadingMore}
+              onLoadMore={infiniteEntries.loadMore}
+              prefetchRows={pageSize}
+            />
           ) : (
             <>
               <div className="table-container">
                 <table className="entries-table">
-                  <thead>
-                    <tr>
-                      <th>Name</th>
-                      <th>Sex</th>
-                      <th>Entry</th>
-                      <th>Exit</th>
-                      <th>Dwell Time</th>
-                    </tr>
-                  </thead>
+                  <EntriesTableHead sort={sort} onSort={handleSort} />
                   <tbody>
-                    {entries.length === 0 ? (
+                    {visibleEntries.length === 0 ? (
                       <tr>
                         <td colSpan={5} className="no-data">
-                          No entries found
+                          {emptyMessage}
                         </td>
                       </tr>
                     ) : (
-                      entries
+                      visibleEntries
                         .filter((entry) => entry && typeof entry === "object")
-                        .map((entry, index) => {
-                          // Handle API format
-                          const personName = entry?.personName || "Unknown";
-                          const gender = entry?.gender || "other";
-                          const entryTime = entry?.entryLocal || "";
-                          const entryUtc = entry?.entryUtc || null;
-                          const exitTime = entry?.exitLocal || null;
-                          const exitUtc = entry?.exitUtc || null;
-                          const dwellTime = entry?.dwellMinutes || null;
-                          const hasExited = exitTime || exitUtc;
-
-                          return (
-                            <tr key={entry?.personId || index}>
-                              <td>
-                                <div className="name-cell">
-                                  <div
-                                    className="avatar"
-                                    style={{
-                                      backgroundColor:
-                                        getAvatarColor(personName),
-                                    }}
-                                  >
-                                    {getInitials(personName)}
-                                  </div>
-                                  <span className="name-text">
-                                    {personName}
-                                  </span>
-                                </div>
-                              </td>
-                              <td>
-                                <span className="gender-text">
-                                  {gender === "male"
-                                    ? "male"
-                                    : gender === "female"
-                                    ? "female"
-                                    : "other"}
-                                </span>
-                              </td>
-                              <td>{formatTime(entryTime, entryUtc)}</td>
-                              <td>
-                                {hasExited
-                                  ? formatTime(exitTime, exitUtc)
-                                  : "--"}
-                              </td>
-                              <td>
-                                {hasExited ? formatDwellTime(dwellTime) : "--"}
-                              </td>
-                            </tr>
-                          );
-                        })
+                        .map((entry, index) => (
+                          <EntryRow
+                            key={`${entry?.personId || index}-${
+                              entry?.entryUtc
+                            }`}
+                            entry={entry}
+                            timezone={timezone}
+                            timeFormat={timeFormat}
+                            onOpenPerson={setSelectedPerson}
+                          />
+                        ))
                     )}
                   </tbody>
                 </table>
               </div>
 
-              {totalPages > 0 && (
+              {pageCount > 0 && (
                 <div className="pagination">
                   <button
                     onClick={() => setPage((p) => Math.max(1, p - 1))}
@@ -349,8 +596,8 @@ export function CrowdEntries() {
                     })}
                   </div>
                   <button
-                    onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
-                    disabled={page >= totalPages || loading}
+                    onClick={() => setPage((p) => Math.min(pageCount, p + 1))}
+                    disabled={page >= pageCount || loading}
                     className="pagination-arrow"
                     aria-label="Next page"
                   >
@@ -370,6 +617,20 @@ export function CrowdEntries() {
           )}
         </div>
       </div>
+      {selectedPerson && (
+        <PersonDetailDrawer
+          siteId={siteId}
+          personId={selectedPerson.personId}
+          personName={selectedPerson.personName}
+          dateRange={dateRange}
+          timezone={timezone}
+          rangeEntries={
+            // Zone-filtered records would hide the person's other zones
+            isClientSideQuery && !filters.zoneId && !loading ? allEntries : null
+          }
+          onClose={closePersonDrawer}
+        />
+      )}
     </div>
   );
 }
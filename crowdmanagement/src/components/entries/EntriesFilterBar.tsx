@@ -0,0 +1,93 @@
+import type { Zone } from "../../types/api";
+import { ALERT_SEVERITIES } from "../../utils/alertFormat";
+import {
+  EMPTY_ENTRY_FILTERS,
+  hasActiveFilters,
+} from "../../utils/entryFilters";
+import type { EntryFilters } from "../../utils/entryFilters";
+
+interface EntriesFilterBarProps {
+  filters: EntryFilters;
+  zones: Zone[];
+  onChange: (filters: EntryFilters) => void;
+}
+
+/**
+ * Search and filters above the Crowd Entries table
+ */
+export function EntriesFilterBar({
+  filters,
+  zones,
+  onChange,
+}: EntriesFilterBarProps) {
+  const updateFilter = <K extends keyof EntryFilters>(
+    key: K,
+    value: EntryFilters[K]
+  ) => {
+    onChange({ ...filters, [key]: value });
+  };
+
+  return (
+    <div className="entries-filters">
+      <input
+        type="search"
+        className="entries-search"
+        placeholder="Search name or person ID"
+        value={filters.search}
+        onChange={(e) => updateFilter("search", e.target.value)}
+      />
+      <select
+        value={filters.zoneId}
+        onChange={(e) => updateFilter("zoneId", e.target.value)}
+        aria-label="Zone"
+      >
+        <option value="">All zones</option>
+        {zones.map((zone) => (
+          <option key={zone.zoneId} value={zone.zoneId}>
+            {zone.name}
+          </option>
+        ))}
+      </select>
+      <select
+        value={filters.severity}
+        onChange={(e) => updateFilter("severity", e.target.value)}
+        aria-label="Severity"
+      >
+        <option value="">All severities</option>
+        {ALERT_SEVERITIES.map((severity) => (
+          <option key={severity} value={severity}>
+            {severity}
+          </option>
+        ))}
+      </select>
+      <select
+        value={filters.gender}
+        onChange={(e) =>
+          updateFilter("gender", e.target.value as EntryFilters["gender"])
+        }
+        aria-label="Sex"
+      >
+        <option value="">All sexes</option>
+        <option value="male">male</option>
+        <option value="female">female</option>
+        <option value="other">other</option>
+      </select>
+      <label className="entries-still-inside">
+        <input
+          type="checkbox"
+          checked={filters.stillInside}
+          onChange={(e) => updateFilter("stillInside", e.target.checked)}
+        />
+        Still inside
+      </label>
+      {hasActiveFilters(filters) && (
+        <button
+          className="entries-clear-filters"
+          onClick={() => onChange(EMPTY_ENTRY_FILTERS)}
+        >
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
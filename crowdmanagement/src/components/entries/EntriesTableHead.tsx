@@ -0,0 +1,54 @@
+import type { EntrySort, EntrySortKey } from "../../utils/entryFilters";
+
+const COLUMNS: { key: EntrySortKey | null; label: string }[] = [
+  { key: "name", label: "Name" },
+  { key: null, label: "Sex" },
+  { key: "entry", label: "Entry" },
+  { key: "exit", label: "Exit" },
+  { key: "dwell", label: "Dwell Time" },
+];
+
+interface EntriesTableHeadProps {
+  sort: EntrySort | null;
+  onSort: (key: EntrySortKey) => void;
+}
+
+/**
+ * Column headers of the Crowd Entries table; sortable columns are buttons
+ */
+export function EntriesTableHead({ sort, onSort }: EntriesTableHeadProps) {
+  return (
+    <thead>
+      <tr>
+        {COLUMNS.map(({ key, label }) => {
+          if (!key) {
+            return <th key={label}>{label}</th>;
+          }
+          const direction = sort?.key === key ? sort.direction : null;
+          return (
+            <th
+              key={label}
+              aria-sort={
+                direction === "asc"
+                  ? "ascending"
+                  : direction === "desc"
+                  ? "descending"
+                  : "none"
+              }
+            >
+              <button
+                className={`entries-sort ${direction ? "active" : ""}`}
+                onClick={() => onSort(key)}
+              >
+                {label}
+                <span className="entries-sort-icon">
+                  {direction === "asc" ? "▲" : direction === "desc" ? "▼" : "↕"}
+                </span>
+              </button>
+            </th>
+          );
+        })}
+      </tr>
+    </thead>
+  );
+}
@@ -0,0 +1,76 @@
+import type { CrowdEntry } from "../../types/api";
+import {
+  formatDwellTime,
+  formatTime,
+  getAvatarColor,
+  getInitials,
+} from "../../utils/entryFormat";
+import { getEntryGender } from "../../utils/entryFilters";
+
+interface EntryRowProps {
+  entry: CrowdEntry;
+  timezone: string | null; // Render times in this timezone (site or viewer)
+  timeFormat: string;
+  onOpenPerson: (person: { personId: string; personName: string }) => void;
+}
+
+/**
+ * One visit in the Crowd Entries table; opens the person's details when clicked
+ */
+export function EntryRow({
+  entry,
+  timezone,
+  timeFormat,
+  onOpenPerson,
+}: EntryRowProps) {
+  // Handle API format
+  const personName = entry?.personName || "Unknown";
+  const gender = getEntryGender(entry);
+  const entryTime = entry?.entryLocal || "";
+  const entryUtc = entry?.entryUtc || null;
+  const exitTime = entry?.exitLocal || null;
+  const exitUtc = entry?.exitUtc || null;
+  const dwellTime = entry?.dwellMinutes || null;
+  const hasExited = exitTime || exitUtc;
+
+  const openPerson = () => {
+    if (entry?.personId) {
+      onOpenPerson({ personId: entry.personId, personName });
+    }
+  };
+
+  return (
+    <tr
+      className={entry?.personId ? "entries-row-clickable" : ""}
+      onClick={openPerson}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") {
+          openPerson();
+        }
+      }}
+      tabIndex={entry?.personId ? 0 : undefined}
+    >
+      <td>
+        <div className="name-cell">
+          <div
+            className="avatar"
+            style={{
+              backgroundColor: getAvatarColor(personName),
+            }}
+          >
+            {getInitials(personName)}
+          </div>
+          <span className="name-text">{personName}</span>
+        </div>
+      </td>
+      <td>
+        <span className="gender-text">{gender}</span>
+      </td>
+      <td>{formatTime(entryTime, entryUtc, timezone, timeFormat)}</td>
+      <td>
+        {hasExited ? formatTime(exitTime, exitUtc, timezone, timeFormat) : "--"}
+      </td>
+      <td>{hasExited ? formatDwellTime(dwellTime) : "--"}</td>
+    </tr>
+  );
+}
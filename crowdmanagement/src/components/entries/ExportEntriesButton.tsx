@@ -0,0 +1,149 @@
+import { useState, useEffect, useRef } from "react";
+import { analyticsService } from "../../services/analytics.service";
+import type { DateRange } from "../../utils/dateRange";
+import { filterEntries, sortEntries } from "../../utils/entryFilters";
+import type { EntryFilters, EntrySort } from "../../utils/entryFilters";
+import {
+  getEntryExportFilename,
+  toEntryExportRows,
+} from "../../utils/entryExport";
+import type { EntryExportFormat } from "../../utils/entryExport";
+import { downloadFile, toCsv, toXlsx } from "../../utils/spreadsheet";
+
+interface ExportEntriesButtonProps {
+  siteId: string | null;
+  dateRange: DateRange;
+  siteTimezone: string | null; // Exported times are always in site time
+  filters: EntryFilters;
+  sort: EntrySort | null;
+  tableCount: number | null; // Rows the table reports for the range, when known
+  disabled?: boolean;
+}
+
+/**
+ * Downloads the entries of the selected range that match the table's filters,
+ * in the table's order, as CSV or Excel. Fetches all pages with a progress bar
+ * and a cancel button.
+ */
+export function ExportEntriesButton({
+  siteId,
+  dateRange,
+  siteTimezone,
+  filters,
+  sort,
+  tableCount,
+  disabled = false,
+}: ExportEntriesButtonProps) {
+  const [showMenu, setShowMenu] = useState(false);
+  const [progress, setProgress] = useState<{
+    fetched: number;
+    total: number;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop fetching pages when leaving the page mid-export
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const handleExport = async (format: EntryExportFormat) => {
+    if (!siteId) {
+      return;
+    }
+    setShowMenu(false);
+    setError(null);
+    setProgress({ fetched: 0, total: 0 });
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const { fromUtc, toUtc } = dateRange;
+      const entries = await analyticsService.getAllEntryExit(
+        { siteId, fromUtc, toUtc, zoneId: filters.zoneId || undefined },
+        { signal: controller.signal, onProgress: setProgress }
+      );
+      const matching = sortEntries(filterEntries(entries, filters), sort);
+      // Entries that arrived between the table's fetch and this one are the
+      // only expected difference
+      if (tableCount !== null && matching.length !== tableCount) {
+        console.warn(
+          `ExportEntriesButton: Exported ${matching.length} entries but the table shows ${tableCount}`
+        );
+      }
+      const rows = toEntryExportRows(matching, siteTimezone);
+      const blob =
+        format === "csv" ? toCsv(rows) : toXlsx(rows, "Crowd entries");
+      downloadFile(
+        blob,
+        getEntryExportFilename(fromUtc, toUtc, siteTimezone, format)
+      );
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error("ExportEntriesButton: Export failed:", err);
+        setError("Export failed. Please try again.");
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  };
+
+  if (progress) {
+    const percentage =
+      progress.total > 0
+        ? Math.round((progress.fetched / progress.total) * 100)
+        : 0;
+    return (
+      <div className="export-progress" role="status">
+        <div className="export-progress-bar">
+          <div
+            className="export-progress-fill"
+            style={{ width: `${percentage}%` }}
+          ></div>
+        </div>
+        <span className="export-progress-text">
+          {progress.total > 0
+            ? `Exporting ${progress.fetched.toLocaleString()} of ${progress.total.toLocaleString()}`
+            : "Preparing export..."}
+        </span>
+        <button className="export-cancel" onClick={handleCancel}>
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="export-wrapper">
+      <button
+        className="export-button"
+        onClick={() => setShowMenu(!showMenu)}
+        disabled={disabled || !siteId}
+        aria-haspopup="menu"
+        aria-expanded={showMenu}
+      >
+        Export
+      </button>
+      {showMenu && (
+        <div className="export-menu" role="menu">
+          <button role="menuitem" onClick={() => handleExport("csv")}>
+            CSV (.csv)
+          </button>
+          <button role="menuitem" onClick={() => handleExport("xlsx")}>
+            Excel (.xlsx)
+          </button>
+        </div>
+      )}
+      {error && <span className="export-error">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useEffect } from "react";
+import type { CrowdEntry } from "../../types/api";
+import type { DateRange } from "../../utils/dateRange";
+import { formatDateRangeLabel } from "../../utils/dateRange";
+import { formatInTimezone } from "../../utils/time";
+import {
+  ENTRY_DATE_TIME_FORMAT,
+  formatDwellTime,
+  getAvatarColor,
+  getInitials,
+} from "../../utils/entryFormat";
+import { usePersonHistory } from "../../hooks/usePersonHistory";
+import "../dashboard/AlertsPanel.css";
+import "./PersonDetailDrawer.css";
+
+interface PersonDetailDrawerProps {
+  siteId: string | null;
+  personId: string;
+  personName: string;
+  dateRange: DateRange;
+  timezone: string | null; // Render times in this timezone (site or viewer)
+  rangeEntries?: CrowdEntry[] | null; // Every record of the range, when already loaded
+  onClose: () => void;
+}
+
+/**
+ * Visit history of one person over the selected range: visits per day,
+ * zones in the order visited, dwell totals and an entry/exit timeline
+ */
+export function PersonDetailDrawer({
+  siteId,
+  personId,
+  personName,
+  dateRange,
+  timezone,
+  rangeEntries = null,
+  onClose,
+}: PersonDetailDrawerProps) {
+  const { history, error, progress } = usePersonHistory(
+    siteId,
+    personId,
+    dateRange,
+    timezone,
+    rangeEntries
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const maxDayVisits = history
+    ? Math.max(1, ...history.visitsPerDay.map((day) => day.visits))
+    : 1;
+
+  return (
+    <>
+      <div className="person-drawer-overlay" onClick={onClose}></div>
+      <aside
+        className="person-drawer"
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Visit history of ${personName}`}
+      >
+        <div className="person-drawer-header">
+          <div className="name-cell">
+            <div
+              className="avatar"
+              style={{ backgroundColor: getAvatarColor(personName) }}
+            >
+              {getInitials(personName)}
+            </div>
+            <div>
+              <h2 className="person-drawer-title">{personName}</h2>
+              <div className="person-drawer-subtitle">
+                ID {personId} · {formatDateRangeLabel(dateRange)}
+              </div>
+            </div>
+          </div>
+          <button
+            className="person-drawer-close"
+            onClick={onClose}
+            aria-label="Close person details"
+          >
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none">
+              <path
+                d="M18 6L6 18M6 6L18 18"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <div className="person-drawer-content">
+          {error ? (
+            <div className="person-drawer-error">{error}</div>
+          ) : !history ? (
+            <div className="loading" role="status">
+              {progress && progress.total > 0
+                ? `Loading visits... ${progress.fetched.toLocaleString()} of ${progress.total.toLocaleString()} records`
+                : "Loading visits..."}
+            </div>
+          ) : history.visits.length === 0 ? (
+            <div className="person-drawer-empty">
+              No visits in the selected range.
+            </div>
+          ) : (
+            <>
+              <section className="person-drawer-stats">
+                <div className="person-drawer-stat">
+                  <span className="person-drawer-stat-label">Visits</span>
+                  <span className="person-drawer-stat-value">
+                    {history.visits.length}
+                  </span>
+                </div>
+                <div className="person-drawer-stat">
+                  <span className="person-drawer-stat-label">Total Dwell</span>
+                  <span className="person-drawer-stat-value">
+                    {formatDwellTime(history.totalDwellMinutes)}
+                  </span>
+                </div>
+                <div className="person-drawer-stat">
+                  <span className="person-drawer-stat-label">Avg Dwell</span>
+                  <span className="person-drawer-stat-value">
+                    {formatDwellTime(history.averageDwellMinutes)}
+                  </span>
+                </div>
+                <div className="person-drawer-stat">
+                  <span className="person-drawer-stat-label">Status</span>
+                  <span className="person-drawer-stat-value">
+                    {history.isInside ? "Inside" : "Left"}
+                  </span>
+                </div>
+              </section>
+
+              <section className="person-drawer-section">
+                <h3>Visits per Day</h3>
+                <ul className="person-drawer-days">
+                  {history.visitsPerDay.map((day) => (
+                    <li key={day.day}>
+                      <span className="person-drawer-day-label">
+                        {formatInTimezone(day.day, null, "ddd, DD MMM")}
+                      </span>
+                      <span className="person-drawer-day-bar">
+                        <span
+                          style={{
+                            width: `${(day.visits / maxDayVisits) * 100}%`,
+                          }}
+                        ></span>
+                      </span>
+                      <span className="person-drawer-day-count">
+                        {day.visits} · {formatDwellTime(day.dwellMinutes)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+
+              <section className="person-drawer-section">
+                <h3>Zones Visited</h3>
+                <ol className="person-drawer-zones">
+                  {history.zonesInOrder.map((zone, index) => (
+                    <li key={`${zone}-${index}`}>{zone}</li>
+                  ))}
+                </ol>
+              </section>
+
+              <section className="person-drawer-section">
+                <h3>Timeline</h3>
+                <ol className="person-drawer-timeline">
+                  {history.visits.map((visit, index) => (
+                    <li key={`${visit.entryUtc}-${index}`}>
+                      <div className="person-drawer-timeline-zone">
+                        {visit.zoneName || visit.zoneId || "Unknown zone"}
+                      </div>
+                      <div className="person-drawer-timeline-times">
+                        {formatInTimezone(
+                          visit.entryUtc,
+                          timezone,
+                          ENTRY_DATE_TIME_FORMAT
+                        )}
+                        {" → "}
+                        {visit.exitUtc !== null
+                          ? formatInTimezone(
+                              visit.exitUtc,
+                              timezone,
+                              ENTRY_DATE_TIME_FORMAT
+                            )
+                          : "still inside"}
+                      </div>
+                      {visit.exitUtc !== null && (
+                        <div className="person-drawer-timeline-dwell">
+                          Dwell {formatDwellTime(visit.dwellMinutes)}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </section>
+            </>
+          )}
+        </div>
+      </aside>
+    </>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState } from "react";
+import type { CrowdEntry } from "../../types/api";
+import type { EntrySort, EntrySortKey } from "../../utils/entryFilters";
+import { EntriesTableHead } from "./EntriesTableHead";
+import { EntryRow } from "./EntryRow";
+
+// Must match the row height in CrowdEntries.css (.entries-table-virtual)
+const ROW_HEIGHT = 72;
+// Rows rendered above and below the viewport so fast scrolling shows no gaps
+const OVERSCAN_ROWS = 10;
+
+interface VirtualEntriesTableProps {
+  entries: CrowdEntry[];
+  timezone: string | null;
+  timeFormat: string;
+  sort: EntrySort | null;
+  onSort: (key: EntrySortKey) => void;
+  onOpenPerson: (person: { personId: string; personName: string }) => void;
+  emptyMessage: string;
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore: () => void;
+  prefetchRows: number; // Load the next page once fewer rows than this remain below
+}
+
+/**
+ * Infinitely scrolling entries table that only renders the rows in view,
+ * so a full day of a busy site scrolls smoothly
+ */
+export function VirtualEntriesTable({
+  entries,
+  timezone,
+  timeFormat,
+  sort,
+  onSort,
+  onOpenPerson,
+  emptyMessage,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  prefetchRows,
+}: VirtualEntriesTableProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    const observer = new ResizeObserver(() =>
+      setViewportHeight(container.clientHeight)
+    );
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const firstRow = Math.max(
+    0,
+    Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS
+  );
+  const lastRow = Math.min(
+    entries.length,
+    Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS
+  );
+  const rowsBelowViewport =
+    entries.length - Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT);
+
+  // Prefetch the next page before the user reaches the end of the list
+  useEffect(() => {
+    if (hasMore && !loadingMore && rowsBelowViewport < prefetchRows) {
+      onLoadMore();
+    }
+  }, [hasMore, loadingMore, rowsBelowViewport, prefetchRows, onLoadMore]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="table-container entries-scroll-container"
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <table className="entries-table entries-table-virtual">
+        <EntriesTableHead sort={sort} onSort={onSort} />
+        <tbody>
+          {entries.length === 0 ? (
+            <tr>
+              <td colSpan={5} className="no-data">
+                {emptyMessage}
+              </td>
+            </tr>
+          ) : (
+            <>
+              {firstRow > 0 && (
+                <tr className="entries-spacer" aria-hidden="true">
+                  <td
+                    colSpan={5}
+                    style={{ height: firstRow * ROW_HEIGHT }}
+                  ></td>
+                </tr>
+              )}
+              {entries.slice(firstRow, lastRow).map((entry, index) => (
+                <EntryRow
+                  key={`${entry?.personId || firstRow + index}-${
+                    entry?.entryUtc
+                  }`}
+                  entry={entry}
+                  timezone={timezone}
+                  timeFormat={timeFormat}
+                  onOpenPerson={onOpenPerson}
+                />
+              ))}
+              {lastRow < entries.length && (
+                <tr className="entries-spacer" aria-hidden="true">
+                  <td
+                    colSpan={5}
+                    style={{ height: (entries.length - lastRow) * ROW_HEIGHT }}
+                  ></td>
+                </tr>
+              )}
+            </>
+          )}
+        </tbody>
+      </table>
+      {loadingMore && (
+        <div className="entries-loading-more">Loading more entries...</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { OccupancyChart } from "../dashboard/OccupancyChart";
+import { DemographicsChart } from "../dashboard/DemographicsChart";
+import type { DailyReportData } from "../../hooks/useDailyReport";
+import type { DateRange } from "../../utils/dateRange";
+import type { CapacityThresholds } from "../../utils/capacity";
+import { getOccupancyPercentage } from "../../utils/capacity";
+import { formatInTimezone, getTimezoneAbbreviation } from "../../utils/time";
+import { formatDwellTime } from "../../utils/entryFormat";
+import { toOccupancyPoints } from "../../utils/occupancy";
+import {
+  findPeakHour,
+  selectTopAlerts,
+  summarizeDemographics,
+} from "../../utils/report";
+import { formatEventName, SEVERITY_COLORS } from "../../utils/alertFormat";
+
+const TOP_ALERTS_LIMIT = 10;
+
+interface DailyReportProps {
+  siteName: string;
+  dateRange: DateRange; // One day in the site's timezone
+  report: DailyReportData;
+  capacity: number | null;
+  capacityThresholds: CapacityThresholds;
+}
+
+/**
+ * Printable daily operations report of a site. Every time is in site time.
+ */
+export function DailyReport({
+  siteName,
+  dateRange,
+  report,
+  capacity,
+  capacityThresholds,
+}: DailyReportProps) {
+  const timezone = dateRange.timezone;
+  const buckets = report.occupancy?.buckets || [];
+  const peakHour = findPeakHour(buckets);
+  const peakPercentage = peakHour
+    ? getOccupancyPercentage(Math.round(peakHour.avg), capacity)
+    : null;
+  const demographics = summarizeDemographics(
+    report.demographics?.buckets || []
+  );
+  const topAlerts = selectTopAlerts(
+    report.alerts,
+    dateRange.fromUtc,
+    dateRange.toUtc,
+    TOP_ALERTS_LIMIT
+  );
+
+  return (
+    <article className="daily-report">
+      <header className="daily-report-header">
+        <div>
+          <h2 className="daily-report-title">Daily Operations Report</h2>
+          <div className="daily-report-site">{siteName}</div>
+        </div>
+        <div className="daily-report-date">
+          {formatInTimezone(dateRange.fromUtc, timezone, "dddd, DD MMM YYYY")}
+          <span className="daily-report-timezone">
+            {timezone || "Local time"} ({getTimezoneAbbreviation(timezone)})
+          </span>
+        </div>
+      </header>
+
+      {report.failedSections.length > 0 && (
+        <div className="daily-report-warning" role="alert">
+          Some data could not be loaded: {report.failedSections.join(", ")}.
+        </div>
+      )}
+
+      <section className="daily-report-kpis">
+        <div className="daily-report-kpi">
+          <span className="daily-report-kpi-label">Footfall</span>
+          <span className="daily-report-kpi-value">
+            {report.footfall !== null ? report.footfall.toLocaleString() : "--"}
+          </span>
+        </div>
+        <div className="daily-report-kpi">
+          <span className="daily-report-kpi-label">Avg Dwell Time</span>
+          <span className="daily-report-kpi-value">
+            {formatDwellTime(report.avgDwellTime)}
+          </span>
+        </div>
+        <div className="daily-report-kpi">
+          <span className="daily-report-kpi-label">Peak Occupancy</span>
+          <span className="daily-report-kpi-value">
+            {peakHour ? Math.round(peakHour.avg).toLocaleString() : "--"}
+          </span>
+        </div>
+        <div className="daily-report-kpi">
+          <span className="daily-report-kpi-label">Male / Female</span>
+          <span className="daily-report-kpi-value">
+            {demographics
+              ? `${demographics.malePercent}% / ${demographics.femalePercent}%`
+              : "--"}
+          </span>
+        </div>
+      </section>
+
+      <section className="daily-report-section">
+        <h3>Peak Time</h3>
+        {peakHour ? (
+          <p className="daily-report-peak">
+            The busiest period was{" "}
+            <strong>
+              {formatInTimezone(peakHour.utc, timezone, "HH:mm")}–
+              {formatInTimezone(peakHour.endUtc, timezone, "HH:mm")}
+            </strong>{" "}
+            with an average of{" "}
+            <strong>{Math.round(peakHour.avg).toLocaleString()}</strong> people
+            on site
+            {peakPercentage !== null && (
+              <>
+                {" "}
+                (<strong>{peakPercentage}%</strong> of the capacity of{" "}
+                {capacity?.toLocaleString()})
+              </>
+            )}
+            .
+          </p>
+        ) : (
+          <p className="daily-report-empty">No occupancy data for this day.</p>
+        )}
+      </section>
+
+      <section className="daily-report-section">
+        <h3>Occupancy</h3>
+        <div className="daily-report-chart">
+          <OccupancyChart
+            data={toOccupancyPoints(buckets)}
+            liveOccupancy={null}
+            timezone={timezone}
+            capacity={capacity}
+            capacityThresholds={capacityThresholds}
+          />
+        </div>
+      </section>
+
+      <section className="daily-report-section">
+        <h3>Demographics</h3>
+        {demographics && (
+          <p className="daily-report-summary">
+            {demographics.male.toLocaleString()} male (
+            {demographics.malePercent}%) and{" "}
+            {demographics.female.toLocaleString()} female (
+            {demographics.femalePercent}%) visitors.
+          </p>
+        )}
+        <div className="daily-report-chart">
+          <DemographicsChart data={report.demographics} timezone={timezone} />
+        </div>
+      </section>
+
+      <section className="daily-report-section">
+        <h3>Top Alerts</h3>
+        <p className="daily-report-source">
+          Alerts received by this browser while it was signed in. Alerts raised
+          while nobody had it open are not included.
+        </p>
+        {topAlerts.length === 0 ? (
+          <p className="daily-report-empty">No alerts received for this day.</p>
+        ) : (
+          <table className="daily-report-table">
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Severity</th>
+                <th>Event</th>
+                <th>Zone</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {topAlerts.map((record) => (
+                <tr key={record.id}>
+                  <td>
+                    {formatInTimezone(
+                      record.event.timestamp || record.receivedAt,
+                      timezone,
+                      "HH:mm:ss"
+                    )}
+                  </td>
+                  <td>
+                    <span
+                      className="daily-report-severity"
+                      style={{
+                        backgroundColor: SEVERITY_COLORS[record.event.severity],
+                      }}
+                    >
+                      {record.event.severity}
+                    </span>
+                  </td>
+                  <td>{formatEventName(record.event)}</td>
+                  <td>{record.event.zone?.name || "--"}</td>
+                  <td>{record.workflow?.status || "--"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <footer className="daily-report-footer">
+        Generated{" "}
+        {formatInTimezone(report.generatedAt, timezone, "DD MMM YYYY, HH:mm")}
+      </footer>
+    </article>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState, useMemo } from "react";
+import { useNavigate, useLocation } from "react-router-dom";
+import { authService } from "../../services/auth.service";
+import { socketService } from "../../services/socket.service";
+import { Sidebar } from "../dashboard/Sidebar";
+import { TopHeader } from "../dashboard/TopHeader";
+import { DailyReport } from "./DailyReport";
+import { useDisplayTimezone } from "../../hooks/useDisplayTimezone";
+import { useDailyReport } from "../../hooks/useDailyReport";
+import { useCapacity } from "../../hooks/useCapacity";
+import { useSession } from "../../hooks/useSession";
+import {
+  resolveDateRange,
+  toDateInputValue,
+  todayDateInputValue,
+} from "../../utils/dateRange";
+import "../entries/CrowdEntries.css";
+import "../dashboard/Dashboard.css";
+import "./ReportsPage.css";
+
+/**
+ * Daily operations report of the active site, printable or saved as PDF
+ * through the browser's print dialog
+ */
+export function ReportsPage() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { collapsed } = location.state || {};
+  const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(
+    collapsed ?? false
+  );
+  const { siteId, site } = useSession();
+  const siteName = site?.name || "";
+  // YYYY-MM-DD in site time; null reports on yesterday, the last complete day
+  const [day, setDay] = useState<string | null>(null);
+  const { siteTimezone, isResolved: isTimezoneResolved } = useDisplayTimezone();
+  const { capacity, thresholds } = useCapacity(siteId);
+
+  // Reports are always in site time, whatever the header's time toggle says
+  const dateRange = useMemo(
+    () =>
+      resolveDateRange(
+        day
+          ? { preset: "custom", from: day, to: day }
+          : { preset: "yesterday" },
+        siteTimezone
+      ),
+    [day, siteTimezone]
+  );
+  const { report } = useDailyReport(siteId, dateRange, isTimezoneResolved);
+
+  const handleLogout = () => {
+    // Disconnect socket before logout
+    socketService.disconnect();
+    authService.logout();
+    navigate("/login", { replace: true });
+  };
+
+  return (
+    <div
+      className={`entries-layout reports-layout ${
+        isSidebarCollapsed ? "sidebar-collapsed" : ""
+      }`}
+    >
+      <Sidebar
+        onLogout={handleLogout}
+        isCollapsed={isSidebarCollapsed}
+        onToggleCollapse={() => setIsSidebarCollapsed(!isSidebarCollapsed)}
+      />
+      <div
+        className={
+          isSidebarCollapsed ? "entries-containercoll" : "entries-container"
+        }
+      >
+        <TopHeader />
+        <div className="entries-content">
+          <div className="entries-title-section reports-controls">
+            <h1 className="entries-main-title">Reports</h1>
+            <div className="entries-actions">
+              <label className="reports-day">
+                Day
+                <input
+                  type="date"
+                  value={toDateInputValue(dateRange.fromUtc, siteTimezone)}
+                  max={todayDateInputValue(siteTimezone)}
+                  onChange={(e) => setDay(e.target.value || null)}
+                />
+              </label>
+              <button
+                className="reports-print"
+                onClick={() => window.print()}
+                disabled={!report}
+              >
+                Print / Save as PDF
+              </button>
+            </div>
+          </div>
+
+          {!siteId ? (
+            <div className="no-data">Select a site to see its report.</div>
+          ) : report ? (
+            <DailyReport
+              siteName={siteName}
+              dateRange={dateRange}
+              report={report}
+              capacity={capacity}
+              capacityThresholds={thresholds}
+            />
+          ) : (
+            <div className="loading">Loading report...</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
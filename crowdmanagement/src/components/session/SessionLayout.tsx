@@ -0,0 +1,69 @@
+import { useEffect } from "react";
+import { Outlet, useLocation, useNavigate } from "react-router-dom";
+import { alertAlarmService } from "../../services/alertAlarm.service";
+import { alertHistoryService } from "../../services/alertHistory.service";
+import { authService } from "../../services/auth.service";
+import { capacityService } from "../../services/capacity.service";
+import { socketService } from "../../services/socket.service";
+import { toReturnPath } from "../../utils/loginRedirect";
+import { AlertToastStack } from "../alerts/AlertToastStack";
+import { SessionProvider } from "./SessionProvider";
+import { SessionTimeout } from "./SessionTimeout";
+
+/**
+ * Parent route of every authenticated page. Keeps a single socket connection
+ * for the whole session so alerts are captured from the moment of login,
+ * whichever page is open, and provides the session state to every page.
+ */
+export function SessionLayout() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const returnPath = toReturnPath(location);
+
+  useEffect(() => {
+    const stopCapture = alertHistoryService.startCapture();
+    const stopAlarms = alertAlarmService.start();
+    const stopMonitoring = capacityService.startMonitoring();
+    socketService.connect();
+
+    // Re-scope the connection when the user switches site
+    const unsubscribeSite = authService.onSiteChange((siteId) => {
+      if (siteId) {
+        socketService.reconnect();
+      }
+    });
+
+    // Refreshed tokens replace the one the connection was opened with
+    const unsubscribeToken = authService.onTokenChange(() => {
+      socketService.reconnect();
+    });
+
+    return () => {
+      unsubscribeToken();
+      unsubscribeSite();
+      stopMonitoring();
+      stopAlarms();
+      stopCapture();
+      socketService.disconnect();
+    };
+  }, []);
+
+  // Back to the login page through the router, without reloading the app
+  useEffect(() => {
+    return authService.onSessionExpired(() => {
+      socketService.disconnect();
+      navigate("/login", {
+        replace: true,
+        state: { sessionExpired: true, from: returnPath },
+      });
+    });
+  }, [navigate, returnPath]);
+
+  return (
+    <SessionProvider>
+      <Outlet />
+      <AlertToastStack />
+      <SessionTimeout />
+    </SessionProvider>
+  );
+}
@@ -0,0 +1,90 @@
+import { useEffect, useMemo, useState } from "react";
+import { authService } from "../../services/auth.service";
+import { sitesService } from "../../services/sites.service";
+import { socketService } from "../../services/socket.service";
+import type { ConnectionStatus } from "../../services/socket.service";
+import type { AuthUser, Site } from "../../types/api";
+import { SessionContext } from "../../hooks/useSession";
+import type { Session } from "../../hooks/useSession";
+import type { Permission, Role } from "../../utils/permissions";
+
+interface SessionProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Single source of the session state every page reads through `useSession`,
+ * kept in sync with the auth and socket services
+ */
+export function SessionProvider({ children }: SessionProviderProps) {
+  const [user, setUser] = useState<AuthUser | null>(authService.getUser());
+  // Claims change with the token (login, silent refresh)
+  const [role, setRole] = useState<Role>(authService.getRole());
+  const [siteId, setSiteId] = useState<string | null>(authService.getSiteId());
+  const [sites, setSites] = useState<Site[]>([]);
+  const [sitesLoading, setSitesLoading] = useState(true);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>(
+    socketService.getStatus()
+  );
+
+  // Load the sites available to this user
+  useEffect(() => {
+    let cancelled = false;
+    sitesService
+      .getSites()
+      .then((result) => {
+        if (!cancelled) {
+          setSites(result);
+        }
+      })
+      .catch((error) => {
+        console.warn("SessionProvider: Failed to fetch sites:", error);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setSitesLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const unsubscribeSite = authService.onSiteChange(setSiteId);
+    const unsubscribeUser = authService.onUserChange(setUser);
+    const unsubscribeToken = authService.onTokenChange(() =>
+      setRole(authService.getRole())
+    );
+    const unsubscribeStatus = socketService.onStatusChange(setConnectionStatus);
+    return () => {
+      unsubscribeStatus();
+      unsubscribeToken();
+      unsubscribeUser();
+      unsubscribeSite();
+    };
+  }, []);
+
+  const session = useMemo<Session>(
+    () => ({
+      user,
+      role,
+      hasPermission: (permission: Permission) =>
+        authService.hasPermission(permission),
+      siteId,
+      site: sites.find((site) => site.siteId === siteId) || null,
+      sites,
+      sitesLoading,
+      connectionStatus,
+      // Subscribers, including this provider, follow through onSiteChange
+      selectSite: (newSiteId: string) => authService.setSiteId(newSiteId),
+    }),
+    [user, role, siteId, sites, sitesLoading, connectionStatus]
+  );
+
+  return (
+    <SessionContext.Provider value={session}>
+      {children}
+    </SessionContext.Provider>
+  );
+}
@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { authService } from "../../services/auth.service";
+import { preferencesService } from "../../services/preferences.service";
+import type { SessionTimeoutSettings } from "../../services/preferences.service";
+import { socketService } from "../../services/socket.service";
+import { useIdleTimeout } from "../../hooks/useIdleTimeout";
+import { toReturnPath } from "../../utils/loginRedirect";
+import "../dashboard/AlertsPanel.css";
+import "./SessionTimeout.css";
+
+// Countdown shown before signing out
+const WARNING_MS = 60 * 1000;
+
+/**
+ * Signs unattended terminals out after the configured idle time, with a
+ * countdown warning first. Kiosk mode (wall displays) is exempt.
+ */
+export function SessionTimeout() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [settings, setSettings] = useState<SessionTimeoutSettings>(
+    preferencesService.getPreferences().sessionTimeout
+  );
+
+  useEffect(() => {
+    return preferencesService.onChange((preferences) =>
+      setSettings(preferences.sessionTimeout)
+    );
+  }, []);
+
+  const timeoutMs = settings.idleTimeoutMinutes * 60 * 1000;
+  const enabled = !settings.kioskMode && timeoutMs > 0;
+  const returnPath = toReturnPath(location);
+
+  const handleTimeout = () => {
+    console.log("SessionTimeout: Signing out after inactivity");
+    socketService.disconnect();
+    authService.logout();
+    navigate("/login", {
+      replace: true,
+      state: { idleTimeout: true, from: returnPath },
+    });
+  };
+
+  const { secondsLeft, stayActive } = useIdleTimeout(
+    timeoutMs,
+    Math.min(WARNING_MS, timeoutMs / 2),
+    enabled,
+    handleTimeout
+  );
+
+  if (secondsLeft === null) {
+    return null;
+  }
+
+  return (
+    <div className="session-timeout-overlay">
+      <div
+        className="session-timeout-dialog"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="session-timeout-title"
+        aria-describedby="session-timeout-message"
+      >
+        <h2 id="session-timeout-title">Still there?</h2>
+        <p id="session-timeout-message">
+          You will be signed out in{" "}
+          <strong className="session-timeout-countdown">{secondsLeft}s</strong>{" "}
+          because this terminal has been inactive.
+        </p>
+        <div className="session-timeout-actions">
+          <button
+            className="session-timeout-stay"
+            onClick={stayActive}
+            autoFocus
+          >
+            Stay signed in
+          </button>
+          <button className="session-timeout-logout" onClick={handleTimeout}>
+            Sign out now
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { capacityService } from "../../services/capacity.service";
+import type { Zone } from "../../types/api";
+
+interface CapacitySettingsFormProps {
+  siteId: string;
+  zones: Zone[];
+}
+
+// Empty input means "no configured limit"
+function parseLimit(value: string): number | null {
+  const limit = parseInt(value, 10);
+  return Number.isFinite(limit) && limit > 0 ? limit : null;
+}
+
+function toInput(value: number | null | undefined): string {
+  return value ? String(value) : "";
+}
+
+/**
+ * Capacity limits and warning/critical thresholds of one site. Mount with
+ * `key={siteId}` so the inputs reset when the site changes.
+ */
+export function CapacitySettingsForm({
+  siteId,
+  zones,
+}: CapacitySettingsFormProps) {
+  const [initial] = useState(() => capacityService.getConfig(siteId));
+  const [siteCapacity, setSiteCapacity] = useState(
+    toInput(initial.siteCapacity)
+  );
+  const [zoneCapacities, setZoneCapacities] = useState<Record<string, string>>(
+    () =>
+      Object.fromEntries(
+        Object.entries(initial.zoneCapacities).map(([zoneId, limit]) => [
+          zoneId,
+          toInput(limit),
+        ])
+      )
+  );
+  const [warningPercent, setWarningPercent] = useState(
+    String(initial.thresholds.warningPercent)
+  );
+  const [criticalPercent, setCriticalPercent] = useState(
+    String(initial.thresholds.criticalPercent)
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const warning = parseLimit(warningPercent);
+    const critical = parseLimit(criticalPercent);
+    if (warning === null || critical === null || warning >= critical) {
+      setError("Thresholds must be positive, with warning below critical.");
+      setSaved(false);
+      return;
+    }
+
+    const zoneLimits: Record<string, number> = {};
+    Object.entries(zoneCapacities).forEach(([zoneId, value]) => {
+      const limit = parseLimit(value);
+      if (limit !== null) {
+        zoneLimits[zoneId] = limit;
+      }
+    });
+
+    capacityService.updateConfig(siteId, {
+      siteCapacity: parseLimit(siteCapacity),
+      zoneCapacities: zoneLimits,
+      thresholds: { warningPercent: warning, criticalPercent: critical },
+    });
+    setError(null);
+    setSaved(true);
+  };
+
+  return (
+    <form className="settings-form" onSubmit={handleSubmit}>
+      <section className="settings-section">
+        <h2>Alert thresholds</h2>
+        <p className="settings-hint">
+          Occupancy above these percentages of capacity turns the gauges amber
+          or red and raises an alert.
+        </p>
+        <div className="settings-row">
+          <label>
+            Warning at
+            <input
+              type="number"
+              min={1}
+              value={warningPercent}
+              onChange={(e) => {
+                setWarningPercent(e.target.value);
+                setSaved(false);
+              }}
+            />
+            %
+          </label>
+          <label>
+            Critical at
+            <input
+              type="number"
+              min={1}
+              value={criticalPercent}
+              onChange={(e) => {
+                setCriticalPercent(e.target.value);
+                setSaved(false);
+              }}
+            />
+            %
+          </label>
+        </div>
+      </section>
+
+      <section className="settings-section">
+        <h2>Capacity</h2>
+        <p className="settings-hint">
+          Leave a limit empty to use the capacity reported by the live feed, if
+          any.
+        </p>
+        <table className="entries-table settings-table">
+          <thead>
+            <tr>
+              <th>Area</th>
+              <th>Configured limit</th>
+              <th>Reported by live feed</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <td className="settings-site-row">Whole site</td>
+              <td>
+                <input
+                  type="number"
+                  min={1}
+                  value={siteCapacity}
+                  onChange={(e) => {
+                    setSiteCapacity(e.target.value);
+                    setSaved(false);
+                  }}
+                  aria-label="Site capacity"
+                />
+              </td>
+              <td>
+                {toInput(capacityService.getReportedCapacity(siteId)) || "--"}
+              </td>
+            </tr>
+            {zones.map((zone) => (
+              <tr key={zone.zoneId}>
+                <td>{zone.name}</td>
+                <td>
+                  <input
+                    type="number"
+                    min={1}
+                    value={zoneCapacities[zone.zoneId] || ""}
+                    onChange={(e) => {
+                      setZoneCapacities({
+                        ...zoneCapacities,
+                        [zone.zoneId]: e.target.value,
+                      });
+                      setSaved(false);
+                    }}
+                    aria-label={`${zone.name} capacity`}
+                  />
+                </td>
+                <td>
+                  {toInput(
+                    capacityService.getReportedCapacity(siteId, zone.zoneId)
+                  ) || "--"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <div className="settings-actions">
+        <button type="submit" className="settings-save">
+          Save
+        </button>
+        {saved && <span className="settings-saved">Saved</span>}
+        {error && <span className="settings-error">{error}</span>}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState, useEffect } from "react";
+import { preferencesService } from "../../services/preferences.service";
+import type { SessionTimeoutSettings } from "../../services/preferences.service";
+
+const IDLE_TIMEOUT_OPTIONS = [5, 10, 15, 30, 60, 120];
+
+/**
+ * Inactivity sign-out of this browser; kiosk mode exempts wall displays.
+ * Changes apply immediately.
+ */
+export function SessionTimeoutForm() {
+  const [settings, setSettings] = useState<SessionTimeoutSettings>(
+    preferencesService.getPreferences().sessionTimeout
+  );
+
+  useEffect(() => {
+    return preferencesService.onChange((preferences) =>
+      setSettings(preferences.sessionTimeout)
+    );
+  }, []);
+
+  // Only the changed setting is stored, so the other keeps following its default
+  const update = (changes: Partial<SessionTimeoutSettings>) => {
+    preferencesService.updatePreferences({ sessionTimeout: changes });
+  };
+
+  // Keep a configured value that is not one of the presets selectable
+  const options = IDLE_TIMEOUT_OPTIONS.includes(settings.idleTimeoutMinutes)
+    ? IDLE_TIMEOUT_OPTIONS
+    : [...IDLE_TIMEOUT_OPTIONS, settings.idleTimeoutMinutes].sort(
+        (a, b) => a - b
+      );
+
+  return (
+    <div className="settings-form">
+      <section className="settings-section">
+        <h2>This device</h2>
+        <p className="settings-hint">
+          Unattended terminals are signed out after a period without keyboard or
+          mouse input, with a one-minute warning first. Stored in this browser
+          only.
+        </p>
+        <div className="settings-row">
+          <label>
+            Sign out after
+            <select
+              value={settings.idleTimeoutMinutes}
+              onChange={(e) =>
+                update({ idleTimeoutMinutes: Number(e.target.value) })
+              }
+              disabled={settings.kioskMode}
+            >
+              {options.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes} minutes
+                </option>
+              ))}
+            </select>
+            of inactivity
+          </label>
+          <label>
+            <input
+              type="checkbox"
+              checked={settings.kioskMode}
+              onChange={(e) => update({ kioskMode: e.target.checked })}
+            />
+            Kiosk mode (wall display, never sign out)
+          </label>
+        </div>
+      </section>
+    </div>
+  );
+}
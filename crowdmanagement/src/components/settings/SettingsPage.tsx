@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { useNavigate, useLocation } from "react-router-dom";
+import { authService } from "../../services/auth.service";
+import { socketService } from "../../services/socket.service";
+import { useSession } from "../../hooks/useSession";
+import { Sidebar } from "../dashboard/Sidebar";
+import { TopHeader } from "../dashboard/TopHeader";
+import { CapacitySettingsForm } from "./CapacitySettingsForm";
+import { SessionTimeoutForm } from "./SessionTimeoutForm";
+import "../entries/CrowdEntries.css";
+import "./SettingsPage.css";
+
+/**
+ * Admin settings of the active site
+ */
+export function SettingsPage() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { collapsed } = location.state || {};
+  const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(
+    collapsed ?? false
+  );
+  const { siteId, site } = useSession();
+  const zones = site?.zones || [];
+
+  const handleLogout = () => {
+    // Disconnect socket before logout
+    socketService.disconnect();
+    authService.logout();
+    navigate("/login", { replace: true });
+  };
+
+  return (
+    <div
+      className={`entries-layout ${
+        isSidebarCollapsed ? "sidebar-collapsed" : ""
+      }`}
+    >
+      <Sidebar
+        onLogout={handleLogout}
+        isCollapsed={isSidebarCollapsed}
+        onToggleCollapse={() => setIsSidebarCollapsed(!isSidebarCollapsed)}
+      />
+      <div
+        className={
+          isSidebarCollapsed ? "entries-containercoll" : "entries-container"
+        }
+      >
+        <TopHeader />
+        <div className="entries-content">
+          <div className="entries-title-section">
+            <h1 className="entries-main-title">Settings</h1>
+          </div>
+          {siteId ? (
+            <CapacitySettingsForm key={siteId} siteId={siteId} zones={zones} />
+          ) : (
+            <div className="no-data">Select a site to configure it.</div>
+          )}
+          <SessionTimeoutForm />
+        </div>
+      </div>
+    </div>
+  );
+}
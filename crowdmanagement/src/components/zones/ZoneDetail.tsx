@@ -0,0 +1,402 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useNavigate, useLocation, useParams } from "react-router-dom";
+import { analyticsService } from "../../services/analytics.service";
+import { authService } from "../../services/auth.service";
+import { socketService } from "../../services/socket.service";
+import type { CrowdEntry } from "../../types/api";
+import { Sidebar } from "../dashboard/Sidebar";
+import { TopHeader } from "../dashboard/TopHeader";
+import { SummaryCards } from "../dashboard/SummaryCards";
+import { OccupancyChart } from "../dashboard/OccupancyChart";
+import { DateRangePicker } from "../dashboard/DateRangePicker";
+import { formatDateRangeLabel } from "../../utils/dateRange";
+import type { DateRangeSelection } from "../../utils/dateRange";
+import { useDisplayTimezone } from "../../hooks/useDisplayTimezone";
+import { useDateRange } from "../../hooks/useDateRange";
+import { useTrendBaseline } from "../../hooks/useTrendBaseline";
+import { useCapacity } from "../../hooks/useCapacity";
+import { useSession } from "../../hooks/useSession";
+import {
+  formatDwellTime,
+  formatTime,
+  getEntryTimeFormat,
+  getAvatarColor,
+  getInitials,
+} from "../../utils/entryFormat";
+import { getSecurityLevelClass } from "../../utils/securityLevel";
+import { toOccupancyPoints } from "../../utils/occupancy";
+import type { OccupancyPoint } from "../../utils/occupancy";
+import "../dashboard/Dashboard.css";
+import "../dashboard/ZoneSelector.css";
+import "../entries/CrowdEntries.css";
+import "./ZoneDetail.css";
+
+const ENTRIES_PAGE_SIZE = 10;
+
+export function ZoneDetail() {
+  const { zoneId = "" } = useParams<{ zoneId: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { collapsed } = location.state || {};
+  const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(
+    collapsed ?? false
+  );
+  const { siteId, site } = useSession();
+  const { timezone, isResolved: isTimezoneResolved } = useDisplayTimezone();
+  const { dateRange, setDateRangeSelection } = useDateRange(timezone);
+  const { previous, comparison, comparisonLabel } = useTrendBaseline(
+    siteId,
+    dateRange,
+    isTimezoneResolved,
+    zoneId
+  );
+  const { capacity, thresholds: capacityThresholds } = useCapacity(
+    siteId,
+    zoneId
+  );
+
+  // Resolve the zone from the active site
+  const zone = site?.zones.find((z) => z.zoneId === zoneId) || null;
+  const zoneNotFound = !!site && !zone;
+  const [footfall, setFootfall] = useState<number | null>(null);
+  const [avgDwellTime, setAvgDwellTime] = useState<number | null>(null);
+  const [currentOccupancy, setCurrentOccupancy] = useState<number | null>(null);
+  const [occupancyData, setOccupancyData] = useState<OccupancyPoint[]>([]);
+  const [failedCalls, setFailedCalls] = useState<string[]>([]);
+  // Key of the latest metrics request; results of older ones are dropped
+  const metricsKeyRef = useRef<string | null>(null);
+
+  const [entries, setEntries] = useState<CrowdEntry[]>([]);
+  const [entriesPage, setEntriesPage] = useState(1);
+  const [entriesTotalPages, setEntriesTotalPages] = useState(0);
+  const [entriesLoading, setEntriesLoading] = useState(true);
+
+  // Follow the site switcher; the zone may not exist in the new site
+  useEffect(() => {
+    return authService.onSiteChange(() => {
+      setEntriesPage(1);
+    });
+  }, []);
+
+  const loadZoneMetrics = useCallback(async () => {
+    if (!siteId || !zoneId) {
+      return;
+    }
+
+    const { fromUtc, toUtc } = dateRange;
+    const request = { siteId, fromUtc, toUtc, zoneId };
+    const key = [siteId, zoneId, fromUtc, toUtc].join("|");
+    metricsKeyRef.current = key;
+    console.log("ZoneDetail: Loading metrics for zone:", zoneId);
+
+    const [footfallResult, dwellResult, occupancyResult] =
+      await Promise.allSettled([
+        analyticsService.getFootfall(request),
+        analyticsService.getDwellTime(request),
+        analyticsService.getOccupancy(request),
+      ]);
+
+    // The zone or range changed while this request was in flight
+    if (metricsKeyRef.current !== key) {
+      return;
+    }
+
+    const failed: string[] = [];
+
+    if (footfallResult.status === "fulfilled") {
+      const value = footfallResult.value?.footfall;
+      setFootfall(typeof value === "number" && !isNaN(value) ? value : null);
+    } else {
+      failed.push("Footfall");
+      setFootfall(null);
+    }
+
+    if (dwellResult.status === "fulfilled") {
+      const value = dwellResult.value?.avgDwellMinutes;
+      setAvgDwellTime(
+        typeof value === "number" && !isNaN(value) ? value : null
+      );
+    } else {
+      failed.push("Dwell Time");
+      setAvgDwellTime(null);
+    }
+
+    if (occupancyResult.status === "fulfilled") {
+      const buckets = Array.isArray(occupancyResult.value?.buckets)
+        ? occupancyResult.value.buckets
+        : [];
+      setOccupancyData(toOccupancyPoints(buckets));
+      const lastBucket = buckets[buckets.length - 1];
+      setCurrentOccupancy(
+        lastBucket && typeof lastBucket.avg === "number" ? lastBucket.avg : null
+      );
+    } else {
+      failed.push("Occupancy");
+      setOccupancyData([]);
+      setCurrentOccupancy(null);
+    }
+
+    setFailedCalls(failed);
+  }, [siteId, zoneId, dateRange]);
+
+  const loadZoneEntries = useCallback(async () => {
+    if (!siteId || !zoneId) {
+      return;
+    }
+    try {
+      setEntriesLoading(true);
+      const response = await analyticsService.getEntryExit({
+        siteId,
+        fromUtc: dateRange.fromUtc,
+        toUtc: dateRange.toUtc,
+        pageNumber: entriesPage,
+        pageSize: ENTRIES_PAGE_SIZE,
+        zoneId,
+      });
+      const records = Array.isArray(response?.records) ? response.records : [];
+      // Keep only this zone in case the API ignores the zoneId filter
+      setEntries(records.filter((entry) => entry?.zoneId === zoneId));
+      setEntriesTotalPages(
+        typeof response?.totalPages === "number" ? response.totalPages : 0
+      );
+    } catch (error) {
+      console.error("ZoneDetail: Failed to load zone entries:", error);
+      setEntries([]);
+      setEntriesTotalPages(0);
+    } finally {
+      setEntriesLoading(false);
+    }
+  }, [siteId, zoneId, dateRange, entriesPage]);
+
+  // Wait for the site's timezone so day boundaries are right on the first load
+  useEffect(() => {
+    if (isTimezoneResolved) {
+      loadZoneMetrics();
+    }
+  }, [loadZoneMetrics, isTimezoneResolved]);
+
+  useEffect(() => {
+    if (isTimezoneResolved) {
+      loadZoneEntries();
+    }
+  }, [loadZoneEntries, isTimezoneResolved]);
+
+  const handleDateRangeChange = (selection: DateRangeSelection) => {
+    setDateRangeSelection(selection);
+    setEntriesPage(1);
+  };
+
+  const timeFormat = getEntryTimeFormat(dateRange.fromUtc, dateRange.toUtc);
+
+  const handleBack = () => {
+    navigate("/dashboard", { state: { collapsed: isSidebarCollapsed } });
+  };
+
+  const handleLogout = () => {
+    // Disconnect socket before logout
+    socketService.disconnect();
+    authService.logout();
+    navigate("/login", { replace: true });
+  };
+
+  const zoneName = zone?.name || zoneId;
+
+  return (
+    <div
+      className={`entries-layout ${
+        isSidebarCollapsed ? "sidebar-collapsed" : ""
+      }`}
+    >
+      <Sidebar
+        onLogout={handleLogout}
+        isCollapsed={isSidebarCollapsed}
+        onToggleCollapse={() => setIsSidebarCollapsed(!isSidebarCollapsed)}
+      />
+      <div
+        className={
+          isSidebarCollapsed ? "entries-containercoll" : "entries-container"
+        }
+      >
+        <TopHeader />
+        <div className="entries-content">
+          <button className="zone-back-button" onClick={handleBack}>
+            ← Overview
+          </button>
+          <div className="entries-title-section">
+            <div className="zone-title">
+              <h1 className="entries-main-title">{zoneName}</h1>
+              {zone && (
+                <span
+                  className={`zone-security-badge ${getSecurityLevelClass(
+                    zone.securityLevel
+                  )}`}
+                >
+                  {zone.securityLevel || "low"} security
+                </span>
+              )}
+            </div>
+            <DateRangePicker
+              value={dateRange}
+              onChange={handleDateRangeChange}
+            />
+          </div>
+
+          {zoneNotFound ? (
+            <div className="no-data">
+              This zone does not belong to the selected site.
+            </div>
+          ) : (
+            <>
+              {failedCalls.length > 0 && (
+                <div className="partial-error-banner">
+                  <span>
+                    ⚠️ Failed to load: {failedCalls.join(", ")}. Showing
+                    available data.
+                  </span>
+                  <button
+                    onClick={loadZoneMetrics}
+                    className="retry-link-button"
+                  >
+                    Retry
+                  </button>
+                </div>
+              )}
+
+              <SummaryCards
+                liveOccupancy={currentOccupancy}
+                todayFootfall={footfall}
+                avgDwellTime={avgDwellTime}
+                periodLabel={formatDateRangeLabel(dateRange)}
+                previous={previous}
+                comparison={comparison}
+                comparisonLabel={comparisonLabel}
+                capacity={capacity}
+                capacityThresholds={capacityThresholds}
+              />
+
+              <div className="chart-container chart-container-full zone-section">
+                <h2>Zone Occupancy</h2>
+                <OccupancyChart
+                  data={occupancyData}
+                  liveOccupancy={null}
+                  timezone={timezone}
+                  capacity={capacity}
+                  capacityThresholds={capacityThresholds}
+                />
+              </div>
+
+              <h2 className="zone-section-title">Entries</h2>
+              {entriesLoading ? (
+                <div className="loading">Loading entries...</div>
+              ) : (
+                <>
+                  <div className="table-container">
+                    <table className="entries-table">
+                      <thead>
+                        <tr>
+                          <th>Name</th>
+                          <th>Entry</th>
+                          <th>Exit</th>
+                          <th>Dwell Time</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {entries.length === 0 ? (
+                          <tr>
+                            <td colSpan={4} className="no-data">
+                              No entries found for this zone
+                            </td>
+                          </tr>
+                        ) : (
+                          entries.map((entry, index) => {
+                            const personName = entry.personName || "Unknown";
+                            const hasExited = entry.exitLocal || entry.exitUtc;
+                            return (
+                              <tr
+                                key={`${entry.personId}-${entry.entryUtc}-${index}`}
+                              >
+                                <td>
+                                  <div className="name-cell">
+                                    <div
+                                      className="avatar"
+                                      style={{
+                                        backgroundColor:
+                                          getAvatarColor(personName),
+                                      }}
+                                    >
+                                      {getInitials(personName)}
+                                    </div>
+                                    <span className="name-text">
+                                      {personName}
+                                    </span>
+                                  </div>
+                                </td>
+                                <td>
+                                  {formatTime(
+                                    entry.entryLocal,
+                                    entry.entryUtc,
+                                    timezone,
+                                    timeFormat
+                                  )}
+                                </td>
+                                <td>
+                                  {hasExited
+                                    ? formatTime(
+                                        entry.exitLocal,
+                                        entry.exitUtc,
+                                        timezone,
+                                        timeFormat
+                                      )
+                                    : "--"}
+                                </td>
+                                <td>
+                                  {hasExited
+                                    ? formatDwellTime(entry.dwellMinutes)
+                                    : "--"}
+                                </td>
+                              </tr>
+                            );
+                          })
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {entriesTotalPages > 1 && (
+                    <div className="pagination">
+                      <button
+                        onClick={() =>
+                          setEntriesPage((p) => Math.max(1, p - 1))
+                        }
+                        disabled={entriesPage === 1}
+                        className="pagination-arrow"
+                        aria-label="Previous page"
+                      >
+                        ‹
+                      </button>
+                      <span className="zone-page-indicator">
+                        Page {entriesPage} of {entriesTotalPages}
+                      </span>
+                      <button
+                        onClick={() =>
+                          setEntriesPage((p) =>
+                            Math.min(entriesTotalPages, p + 1)
+                          )
+                        }
+                        disabled={entriesPage >= entriesTotalPages}
+                        className="pagination-arrow"
+                        aria-label="Next page"
+                      >
+                        ›
+                      </button>
+                    </div>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,25 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { authService } from '../services/auth.service';
+import type { Permission } from '../utils/permissions';
+import { toReturnPath } from '../utils/loginRedirect';
+import { NotAuthorized } from '../components/auth/NotAuthorized';
 
 interface AuthGuardProps {
   children: React.ReactNode;
+  permission?: Permission; // Required by the route, on top of being signed in
 }
 
-export function AuthGuard({ children }: AuthGuardProps) {
+export function AuthGuard({ children, permission }: AuthGuardProps) {
+  const location = useLocation();
+
   if (!authService.isAuthenticated()) {
-    return <Navigate to="/login" replace />;
+    // Remember the requested page so login can send the user back to it
+    return <Navigate to="/login" replace state={{ from: toReturnPath(location) }} />;
+  }
+
+  if (permission && !authService.hasPermission(permission)) {
+    return <NotAuthorized />;
   }
 
   return <>{children}</>;
 }
-
-
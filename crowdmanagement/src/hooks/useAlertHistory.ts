@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { alertHistoryService } from '../services/alertHistory.service';
+import type { AlertRecord } from '../services/alertHistory.service';
+
+/**
+ * Stored alerts of a site, newest first, kept up to date as alerts arrive
+ * or are marked read
+ */
+export function useAlertHistory(siteId: string | null): {
+  alerts: AlertRecord[];
+  unreadCount: number;
+  unacknowledgedCriticalCount: number;
+} {
+  const [loaded, setLoaded] = useState<{ siteId: string; alerts: AlertRecord[] } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!siteId) {
+      return;
+    }
+
+    const load = () => {
+      alertHistoryService
+        .getAlerts(siteId)
+        .then((alerts) => {
+          if (!cancelled) {
+            setLoaded({ siteId, alerts });
+          }
+        })
+        .catch((error) => {
+          console.warn('useAlertHistory: Failed to load alert history:', error);
+        });
+    };
+
+    load();
+    const unsubscribe = alertHistoryService.onChange((changedSiteId) => {
+      if (changedSiteId === siteId) {
+        load();
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [siteId]);
+
+  // Never show another site's alerts while the new site is loading
+  const alerts = loaded && loaded.siteId === siteId ? loaded.alerts : [];
+  return {
+    alerts,
+    unreadCount: alerts.filter((record) => !record.read).length,
+    unacknowledgedCriticalCount: alerts.filter(
+      (record) => record.event.severity === 'critical' && record.workflow?.status === 'open'
+    ).length,
+  };
+}
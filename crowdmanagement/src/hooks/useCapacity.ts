@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { capacityService } from '../services/capacity.service';
+import type { CapacityThresholds } from '../utils/capacity';
+
+interface CapacityLimits {
+  capacity: number | null; // Null when neither configured nor reported
+  thresholds: CapacityThresholds;
+}
+
+/**
+ * Capacity and warning/critical thresholds of a site, or of one of its zones,
+ * kept up to date as the configuration changes or the server reports a limit
+ */
+export function useCapacity(siteId: string | null, zoneId?: string): CapacityLimits {
+  const key = `${siteId}|${zoneId || ''}`;
+  const [loaded, setLoaded] = useState<({ key: string } & CapacityLimits) | null>(null);
+
+  useEffect(() => {
+    if (!siteId) {
+      return;
+    }
+    return capacityService.onChange((changedSiteId) => {
+      if (changedSiteId === siteId) {
+        setLoaded({
+          key,
+          capacity: capacityService.getCapacity(siteId, zoneId),
+          thresholds: capacityService.getThresholds(siteId),
+        });
+      }
+    });
+  }, [key, siteId, zoneId]);
+
+  if (loaded && loaded.key === key) {
+    return { capacity: loaded.capacity, thresholds: loaded.thresholds };
+  }
+  return {
+    capacity: siteId ? capacityService.getCapacity(siteId, zoneId) : null,
+    thresholds: capacityService.getThresholds(siteId || ''),
+  };
+}
@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import { alertHistoryService } from '../services/alertHistory.service';
+import type { AlertRecord } from '../services/alertHistory.service';
+import { analyticsService } from '../services/analytics.service';
+import type { AnalyticsDemographicsResponse, AnalyticsOccupancyResponse } from '../types/api';
+import type { DateRange } from '../utils/dateRange';
+
+export interface DailyReportData {
+  avgDwellTime: number | null;
+  footfall: number | null;
+  occupancy: AnalyticsOccupancyResponse | null;
+  demographics: AnalyticsDemographicsResponse | null;
+  alerts: AlertRecord[]; // Every stored alert of the site; the report picks the day's
+  failedSections: string[]; // Names of the parts that could not be loaded
+  generatedAt: number; // UTC timestamp (milliseconds) the data was loaded
+}
+
+const toMetric = (value: unknown): number | null =>
+  typeof value === 'number' && !isNaN(value) && value >= 0 ? value : null;
+
+/**
+ * Everything the daily operations report needs for a site and day.
+ * `report` is null while loading.
+ */
+export function useDailyReport(
+  siteId: string | null,
+  dateRange: DateRange,
+  enabled: boolean
+): { report: DailyReportData | null } {
+  // Keyed by request so a previous day's numbers are never shown for a newer one
+  const [loaded, setLoaded] = useState<{ key: string; report: DailyReportData } | null>(null);
+  const requestKey = [siteId, dateRange.fromUtc, dateRange.toUtc].join('|');
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!siteId || !enabled) {
+      return;
+    }
+
+    const request = { siteId, fromUtc: dateRange.fromUtc, toUtc: dateRange.toUtc };
+    Promise.allSettled([
+      analyticsService.getDwellTime(request),
+      analyticsService.getFootfall(request),
+      analyticsService.getOccupancy(request),
+      analyticsService.getDemographics(request),
+      alertHistoryService.getAlerts(siteId),
+    ]).then(([dwellResult, footfallResult, occupancyResult, demographicsResult, alertsResult]) => {
+      if (cancelled) {
+        return;
+      }
+      const failedSections = [
+        dwellResult.status === 'rejected' && 'Dwell time',
+        footfallResult.status === 'rejected' && 'Footfall',
+        occupancyResult.status === 'rejected' && 'Occupancy',
+        demographicsResult.status === 'rejected' && 'Demographics',
+        alertsResult.status === 'rejected' && 'Alerts',
+      ].filter((name): name is string => !!name);
+
+      setLoaded({
+        key: requestKey,
+        report: {
+          avgDwellTime:
+            dwellResult.status === 'fulfilled'
+              ? toMetric(dwellResult.value?.avgDwellMinutes)
+              : null,
+          footfall:
+            footfallResult.status === 'fulfilled' ? toMetric(footfallResult.value?.footfall) : null,
+          occupancy: occupancyResult.status === 'fulfilled' ? occupancyResult.value : null,
+          demographics: demographicsResult.status === 'fulfilled' ? demographicsResult.value : null,
+          alerts: alertsResult.status === 'fulfilled' ? alertsResult.value : [],
+          failedSections,
+          generatedAt: Date.now(),
+        },
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey, siteId, dateRange.fromUtc, dateRange.toUtc, enabled]);
+
+  return { report: loaded && loaded.key === requestKey ? loaded.report : null };
+}
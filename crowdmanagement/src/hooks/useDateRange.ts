@@ -0,0 +1,33 @@
+import { useCallback, useMemo, useState } from 'react';
+import {
+  loadDateRangeSelection,
+  resolveDateRange,
+  saveDateRangeSelection,
+} from '../utils/dateRange';
+import type { DateRange, DateRangeSelection } from '../utils/dateRange';
+
+/**
+ * Shared date range state for pages driven by the DateRangePicker.
+ * Day boundaries are recomputed whenever the display timezone changes.
+ * `initialSelection` (e.g. from a shared link) wins over the stored range.
+ */
+export function useDateRange(
+  timezone: string | null,
+  initialSelection: DateRangeSelection | null = null
+): {
+  dateRange: DateRange;
+  setDateRangeSelection: (selection: DateRangeSelection) => void;
+} {
+  const [selection, setSelection] = useState<DateRangeSelection>(
+    () => initialSelection || loadDateRangeSelection()
+  );
+
+  const dateRange = useMemo(() => resolveDateRange(selection, timezone), [selection, timezone]);
+
+  const setDateRangeSelection = useCallback((newSelection: DateRangeSelection) => {
+    saveDateRangeSelection(newSelection);
+    setSelection(newSelection);
+  }, []);
+
+  return { dateRange, setDateRangeSelection };
+}
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { preferencesService } from '../services/preferences.service';
+import type { TimeDisplayMode } from '../services/preferences.service';
+import { useSession } from './useSession';
+import { getViewerTimezone, isValidTimezone } from '../utils/time';
+
+interface DisplayTimezone {
+  timezone: string; // Timezone every time on screen should be rendered in
+  mode: TimeDisplayMode;
+  siteTimezone: string | null;
+  isResolved: boolean; // False while the site's timezone is still being looked up
+}
+
+/**
+ * Resolve the timezone to render times in: the active site's timezone by
+ * default, or the viewer's own timezone when the header toggle is set to local
+ * time. `fallbackTimezone` (e.g. the `timezone` of an analytics response) is
+ * used when the site record has no valid timezone.
+ */
+export function useDisplayTimezone(fallbackTimezone?: string | null): DisplayTimezone {
+  const { siteId, site, sitesLoading } = useSession();
+  const [mode, setMode] = useState<TimeDisplayMode>(
+    preferencesService.getPreferences().timeDisplay
+  );
+
+  useEffect(() => {
+    return preferencesService.onChange((preferences) => setMode(preferences.timeDisplay));
+  }, []);
+
+  const siteTimezone = site && isValidTimezone(site.timezone) ? site.timezone : null;
+  const resolvedSiteTimezone =
+    siteTimezone || (isValidTimezone(fallbackTimezone) ? fallbackTimezone : null);
+
+  return {
+    timezone: mode === 'site' && resolvedSiteTimezone ? resolvedSiteTimezone : getViewerTimezone(),
+    mode,
+    siteTimezone: resolvedSiteTimezone,
+    isResolved: !siteId || !sitesLoading,
+  };
+}
@@ -0,0 +1,93 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Shared by every tab, so working in one tab keeps the others signed in
+const LAST_ACTIVITY_KEY = 'last_activity';
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart', 'scroll'];
+// Write the activity time at most this often; mousemove fires constantly
+const ACTIVITY_WRITE_INTERVAL_MS = 5 * 1000;
+const CHECK_INTERVAL_MS = 1000;
+
+function readLastActivity(): number {
+  return Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || 0;
+}
+
+function recordActivity(): void {
+  localStorage.setItem(LAST_ACTIVITY_KEY, String(Date.now()));
+}
+
+interface IdleTimeout {
+  secondsLeft: number | null; // Countdown while the warning is due, otherwise null
+  stayActive: () => void;
+}
+
+/**
+ * Calls `onTimeout` after `timeoutMs` without keyboard, mouse or touch input
+ * in any tab. For the last `warningMs` it counts down instead; input no
+ * longer resets the timer then, only an explicit `stayActive`.
+ */
+export function useIdleTimeout(
+  timeoutMs: number,
+  warningMs: number,
+  enabled: boolean,
+  onTimeout: () => void
+): IdleTimeout {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const warningRef = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    recordActivity();
+    warningRef.current = false;
+    let lastWrite = Date.now();
+
+    const handleActivity = () => {
+      if (warningRef.current || Date.now() - lastWrite < ACTIVITY_WRITE_INTERVAL_MS) {
+        return;
+      }
+      lastWrite = Date.now();
+      recordActivity();
+    };
+
+    const interval = setInterval(() => {
+      const idleMs = Date.now() - readLastActivity();
+      if (idleMs >= timeoutMs) {
+        clearInterval(interval);
+        warningRef.current = false;
+        setSecondsLeft(null);
+        onTimeoutRef.current();
+      } else if (idleMs >= timeoutMs - warningMs) {
+        warningRef.current = true;
+        setSecondsLeft(Math.ceil((timeoutMs - idleMs) / 1000));
+      } else {
+        // Another tab was used, or the user chose to stay
+        warningRef.current = false;
+        setSecondsLeft(null);
+      }
+    }, CHECK_INTERVAL_MS);
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { capture: true, passive: true })
+    );
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, handleActivity, { capture: true })
+      );
+    };
+  }, [enabled, timeoutMs, warningMs]);
+
+  const stayActive = () => {
+    recordActivity();
+    warningRef.current = false;
+    setSecondsLeft(null);
+  };
+
+  return { secondsLeft: enabled ? secondsLeft : null, stayActive };
+}
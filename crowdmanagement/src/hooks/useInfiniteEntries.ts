@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { analyticsService } from '../services/analytics.service';
+import type { CrowdEntry, EntryExitRequest } from '../types/api';
+import type { DateRange } from '../utils/dateRange';
+
+interface InfiniteEntriesState {
+  key: string;
+  entries: CrowdEntry[];
+  pagesLoaded: number;
+  totalPages: number;
+  loadingMore: boolean;
+}
+
+interface InfiniteEntries {
+  entries: CrowdEntry[];
+  loading: boolean; // First page still loading
+  loadingMore: boolean;
+  hasMore: boolean;
+  loadMore: () => void;
+  updateEntries: (update: (entries: CrowdEntry[]) => CrowdEntry[]) => void;
+}
+
+async function fetchEntriesPage(
+  request: EntryExitRequest,
+  signal: AbortSignal
+): Promise<{ records: CrowdEntry[]; totalPages: number }> {
+  const response = await analyticsService.getEntryExit(request, { signal });
+  const records = Array.isArray(response?.records) ? response.records : [];
+  const totalPages = typeof response?.totalPages === 'number' ? response.totalPages : 0;
+  // Stop on an empty page in case the reported page count is off
+  return { records, totalPages: records.length === 0 ? request.pageNumber : totalPages };
+}
+
+// Live entries shift the server's pages, so the next page can repeat rows
+function appendPage(entries: CrowdEntry[], records: CrowdEntry[]): CrowdEntry[] {
+  const seen = new Set(entries.map((entry) => `${entry?.personId}|${entry?.entryUtc}`));
+  return [
+    ...entries,
+    ...records.filter((entry) => !seen.has(`${entry?.personId}|${entry?.entryUtc}`)),
+  ];
+}
+
+/**
+ * Entries of a range loaded one `getEntryExit` page at a time for infinite
+ * scrolling. Call `loadMore` to append the next page; it does nothing while a
+ * page is loading or when every page has been loaded.
+ */
+export function useInfiniteEntries(
+  siteId: string | null,
+  dateRange: DateRange,
+  zoneId: string,
+  pageSize: number,
+  enabled: boolean
+): InfiniteEntries {
+  const key = [siteId, dateRange.fromUtc, dateRange.toUtc, zoneId, pageSize].join('|');
+  const [state, setState] = useState<InfiniteEntriesState | null>(null);
+  const loadMoreRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !siteId) {
+      return;
+    }
+    const controller = new AbortController();
+    const request = {
+      siteId,
+      fromUtc: dateRange.fromUtc,
+      toUtc: dateRange.toUtc,
+      pageNumber: 1,
+      pageSize,
+      zoneId: zoneId || undefined,
+    };
+    fetchEntriesPage(request, controller.signal)
+      .then(({ records, totalPages }) => {
+        setState({ key, entries: records, pagesLoaded: 1, totalPages, loadingMore: false });
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        console.error('useInfiniteEntries: Failed to load entries:', error);
+        setState({ key, entries: [], pagesLoaded: 0, totalPages: 0, loadingMore: false });
+      });
+    return () => {
+      controller.abort();
+      loadMoreRef.current?.abort();
+    };
+  }, [key, enabled, siteId, dateRange.fromUtc, dateRange.toUtc, pageSize, zoneId]);
+
+  const current = state && state.key === key ? state : null;
+  const hasMore = !!current && current.pagesLoaded < current.totalPages;
+
+  const loadMore = () => {
+    if (!siteId || !current || current.loadingMore || !hasMore) {
+      return;
+    }
+    const controller = new AbortController();
+    loadMoreRef.current = controller;
+    const pageNumber = current.pagesLoaded + 1;
+    setState({ ...current, loadingMore: true });
+
+    fetchEntriesPage(
+      {
+        siteId,
+        fromUtc: dateRange.fromUtc,
+        toUtc: dateRange.toUtc,
+        pageNumber,
+        pageSize,
+        zoneId: zoneId || undefined,
+      },
+      controller.signal
+    )
+      .then(({ records, totalPages }) => {
+        setState((prev) =>
+          prev && prev.key === key
+            ? {
+                key,
+                entries: appendPage(prev.entries, records),
+                pagesLoaded: pageNumber,
+                totalPages,
+                loadingMore: false,
+              }
+            : prev
+        );
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        console.error('useInfiniteEntries: Failed to load entries page:', error);
+        // Stop paging after a failed page rather than retrying it in a loop
+        setState((prev) =>
+          prev && prev.key === key
+            ? { ...prev, loadingMore: false, totalPages: prev.pagesLoaded }
+            : prev
+        );
+      });
+  };
+
+  const updateEntries = useCallback(
+    (update: (entries: CrowdEntry[]) => CrowdEntry[]) => {
+      setState((prev) =>
+        prev && prev.key === key ? { ...prev, entries: update(prev.entries) } : prev
+      );
+    },
+    [key]
+  );
+
+  return {
+    entries: current ? current.entries : [],
+    loading: enabled && !current,
+    loadingMore: !!current && current.loadingMore,
+    hasMore,
+    loadMore,
+    updateEntries,
+  };
+}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { analyticsService } from '../services/analytics.service';
+import type { CrowdEntry } from '../types/api';
+import type { DateRange } from '../utils/dateRange';
+import { isLiveRange } from '../utils/dateRange';
+import { getPersonHistory } from '../utils/personHistory';
+import type { PersonHistory } from '../utils/personHistory';
+
+// How long the records of a range that is still running are reused
+const LIVE_RANGE_CACHE_MS = 60 * 1000;
+
+// Records of the last range fetched, shared by every person opened in it
+let rangeCache: { key: string; records: CrowdEntry[]; fetchedAt: number } | null = null;
+
+function getCachedRecords(key: string, isLive: boolean): CrowdEntry[] | null {
+  if (!rangeCache || rangeCache.key !== key) {
+    return null;
+  }
+  if (isLive && Date.now() - rangeCache.fetchedAt > LIVE_RANGE_CACHE_MS) {
+    return null;
+  }
+  return rangeCache.records;
+}
+
+/**
+ * Visit history of one person over a range. The entry-exit API can't filter
+ * by person, so the records of the range are narrowed down here: taken from
+ * `rangeEntries` when the caller already holds every record of the range,
+ * otherwise fetched (and kept for the next person opened in the same range).
+ * `history` is null while loading or after an error; `progress` tracks the fetch.
+ */
+export function usePersonHistory(
+  siteId: string | null,
+  personId: string | null,
+  dateRange: DateRange,
+  timezone: string | null,
+  rangeEntries: CrowdEntry[] | null = null
+): {
+  history: PersonHistory | null;
+  error: string | null;
+  progress: { fetched: number; total: number } | null;
+} {
+  const { fromUtc, toUtc } = dateRange;
+  const rangeKey = [siteId, fromUtc, toUtc].join('|');
+  const isLive = isLiveRange(dateRange);
+  const key = [rangeKey, personId].join('|');
+  const hasRangeEntries = rangeEntries !== null;
+  const [loaded, setLoaded] = useState<{
+    key: string;
+    entries: CrowdEntry[];
+    error: string | null;
+  } | null>(null);
+  const [progress, setProgress] = useState<{
+    key: string;
+    fetched: number;
+    total: number;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!siteId || !personId || hasRangeEntries) {
+      return;
+    }
+    const controller = new AbortController();
+    const cached = getCachedRecords(rangeKey, isLive);
+    const request = cached
+      ? Promise.resolve(cached)
+      : analyticsService
+          .getAllEntryExit(
+            { siteId, fromUtc, toUtc },
+            {
+              signal: controller.signal,
+              onProgress: ({ fetched, total }) => setProgress({ key, fetched, total }),
+            }
+          )
+          .then((records) => {
+            rangeCache = { key: rangeKey, records, fetchedAt: Date.now() };
+            return records;
+          });
+    request
+      .then((records) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        setLoaded({
+          key,
+          entries: records.filter((entry) => entry?.personId === personId),
+          error: null,
+        });
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        console.error('usePersonHistory: Failed to load visits:', error);
+        setLoaded({ key, entries: [], error: 'Failed to load visit history.' });
+      });
+    return () => controller.abort();
+  }, [key, rangeKey, siteId, personId, fromUtc, toUtc, isLive, hasRangeEntries]);
+
+  if (!personId) {
+    return { history: null, error: null, progress: null };
+  }
+  if (rangeEntries) {
+    return {
+      history: getPersonHistory(
+        rangeEntries.filter((entry) => entry?.personId === personId),
+        personId,
+        timezone
+      ),
+      error: null,
+      progress: null,
+    };
+  }
+  if (!loaded || loaded.key !== key) {
+    return {
+      history: null,
+      error: null,
+      progress:
+        progress && progress.key === key
+          ? { fetched: progress.fetched, total: progress.total }
+          : null,
+    };
+  }
+  return {
+    history: loaded.error ? null : getPersonHistory(loaded.entries, personId, timezone),
+    error: loaded.error,
+    progress: null,
+  };
+}
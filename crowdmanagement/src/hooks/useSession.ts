@@ -0,0 +1,30 @@
+import { createContext, useContext } from 'react';
+import type { ConnectionStatus } from '../services/socket.service';
+import type { AuthUser, Site } from '../types/api';
+import type { Permission, Role } from '../utils/permissions';
+
+export interface Session {
+  user: AuthUser | null;
+  role: Role;
+  hasPermission: (permission: Permission) => boolean;
+  siteId: string | null;
+  site: Site | null; // Active site with its zones and timezone, once the sites have loaded
+  sites: Site[]; // Every site the user can access
+  sitesLoading: boolean;
+  connectionStatus: ConnectionStatus;
+  selectSite: (siteId: string) => void;
+}
+
+export const SessionContext = createContext<Session | null>(null);
+
+/**
+ * The signed-in user, the active site and the live connection state.
+ * Only available below `SessionProvider` (every authenticated page).
+ */
+export function useSession(): Session {
+  const session = useContext(SessionContext);
+  if (!session) {
+    throw new Error('useSession must be used within a SessionProvider');
+  }
+  return session;
+}
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { analyticsService } from '../services/analytics.service';
+import { preferencesService } from '../services/preferences.service';
+import type { DateRange } from '../utils/dateRange';
+import { getComparisonLabel, getComparisonRange, getOccupancyAt } from '../utils/trends';
+import type { TrendComparison } from '../utils/trends';
+
+export interface PeriodMetrics {
+  occupancy: number | null;
+  footfall: number | null;
+  avgDwellTime: number | null;
+}
+
+interface TrendBaseline {
+  previous: PeriodMetrics | null; // Null while loading or when no site is selected
+  comparison: TrendComparison;
+  comparisonLabel: string;
+}
+
+const toMetric = (value: unknown): number | null =>
+  typeof value === 'number' && !isNaN(value) && value >= 0 ? value : null;
+
+/**
+ * Load the summary metrics of the period the current range is compared
+ * against (the previous period, or the same weekday last week). Metrics that
+ * fail to load are null so their trend renders in the neutral state.
+ */
+export function useTrendBaseline(
+  siteId: string | null,
+  dateRange: DateRange,
+  enabled: boolean,
+  zoneId?: string
+): TrendBaseline {
+  const [comparison, setComparison] = useState<TrendComparison>(
+    preferencesService.getPreferences().trendComparison
+  );
+  // Keyed by request so stale metrics are never shown for a newer range
+  const [loaded, setLoaded] = useState<{ key: string; metrics: PeriodMetrics } | null>(null);
+  const requestKey = [siteId, zoneId, dateRange.fromUtc, dateRange.toUtc, comparison].join('|');
+
+  useEffect(() => {
+    return preferencesService.onChange((preferences) => setComparison(preferences.trendComparison));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!siteId || !enabled) {
+      return;
+    }
+
+    const { fromUtc, toUtc } = getComparisonRange(dateRange, comparison, Date.now());
+    const request = { siteId, fromUtc, toUtc, ...(zoneId ? { zoneId } : {}) };
+
+    Promise.allSettled([
+      analyticsService.getOccupancy(request),
+      analyticsService.getFootfall(request),
+      analyticsService.getDwellTime(request),
+    ]).then(([occupancyResult, footfallResult, dwellResult]) => {
+      if (cancelled) {
+        return;
+      }
+      const buckets =
+        occupancyResult.status === 'fulfilled' && Array.isArray(occupancyResult.value?.buckets)
+          ? occupancyResult.value.buckets
+          : [];
+      setLoaded({
+        key: requestKey,
+        metrics: {
+          occupancy: getOccupancyAt(buckets, toUtc),
+          footfall:
+            footfallResult.status === 'fulfilled' ? toMetric(footfallResult.value?.footfall) : null,
+          avgDwellTime:
+            dwellResult.status === 'fulfilled'
+              ? toMetric(dwellResult.value?.avgDwellMinutes)
+              : null,
+        },
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [siteId, dateRange, comparison, enabled, zoneId, requestKey]);
+
+  return {
+    previous: siteId && enabled && loaded?.key === requestKey ? loaded.metrics : null,
+    comparison,
+    comparisonLabel: getComparisonLabel(dateRange, comparison),
+  };
+}
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useLocation, useSearchParams } from 'react-router-dom';
+import { parseViewQuery, toViewSearch } from '../utils/viewQuery';
+import type { ViewQuery } from '../utils/viewQuery';
+import { useSession } from './useSession';
+
+/**
+ * Deep-linkable view state. `initialView` is the query the page was opened
+ * with; a linked site the user can access becomes the active site. Call
+ * `syncViewQuery` whenever the view changes to keep the URL shareable.
+ */
+export function useViewQuery(): {
+  initialView: ViewQuery;
+  syncViewQuery: (view: Partial<ViewQuery>) => void;
+} {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const location = useLocation();
+  const [initialView] = useState(() => parseViewQuery(searchParams));
+  const { siteId, sites, sitesLoading, selectSite } = useSession();
+  // Only the link the page was opened with switches sites, not later site changes
+  const linkHandledRef = useRef(false);
+
+  useEffect(() => {
+    const linkedSite = initialView.site;
+    if (!linkedSite || sitesLoading || linkHandledRef.current) {
+      return;
+    }
+    linkHandledRef.current = true;
+    if (linkedSite !== siteId) {
+      if (sites.some((s) => s.siteId === linkedSite)) {
+        selectSite(linkedSite);
+      } else {
+        console.warn('useViewQuery: Linked site is not available to this user:', linkedSite);
+      }
+    }
+  }, [initialView.site, siteId, sites, sitesLoading, selectSite]);
+
+  const currentSearch = searchParams.toString();
+  const state = location.state;
+  const syncViewQuery = useCallback(
+    (view: Partial<ViewQuery>) => {
+      const search = toViewSearch(view);
+      if (search !== currentSearch) {
+        // Keep navigation state such as the sidebar's collapsed flag
+        setSearchParams(search, { replace: true, state });
+      }
+    },
+    [currentSearch, setSearchParams, state]
+  );
+
+  return { initialView, syncViewQuery };
+}
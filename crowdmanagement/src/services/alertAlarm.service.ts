@@ -0,0 +1,214 @@
+import type { SocketAlertEvent } from '../types/api';
+import {
+  formatEventName,
+  getAlertDedupeKey,
+  isAtLeastSeverity,
+  matchesToastRules,
+} from '../utils/alertFormat';
+import { alertHistoryService } from './alertHistory.service';
+import type { AlertRecord } from './alertHistory.service';
+import { authService } from './auth.service';
+import { preferencesService } from './preferences.service';
+import type { AlertAlarmSettings } from './preferences.service';
+
+interface AlarmTone {
+  wave: OscillatorType;
+  notes: [frequency: number, durationMs: number][];
+}
+
+// Each severity sounds different, so operators can tell them apart without looking
+const ALARM_TONES: Record<SocketAlertEvent['severity'], AlarmTone> = {
+  low: { wave: 'sine', notes: [[523, 120]] },
+  medium: {
+    wave: 'sine',
+    notes: [
+      [659, 150],
+      [659, 150],
+    ],
+  },
+  high: {
+    wave: 'triangle',
+    notes: [
+      [880, 180],
+      [660, 180],
+      [880, 180],
+    ],
+  },
+  critical: {
+    wave: 'square',
+    notes: [
+      [988, 250],
+      [740, 250],
+      [988, 250],
+      [740, 250],
+      [988, 250],
+      [740, 250],
+    ],
+  },
+};
+
+const NOTE_GAP_MS = 60;
+const VOLUME = 0.2;
+// A burst of alerts plays one alarm unless a more severe one arrives
+const ALARM_THROTTLE_MS = 2000;
+
+export type DesktopNotificationPermission = NotificationPermission | 'unsupported';
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+function isQuietTime(quietHours: AlertAlarmSettings['quietHours'], date: Date): boolean {
+  if (!quietHours.enabled) {
+    return false;
+  }
+  const now = date.getHours() * 60 + date.getMinutes();
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  // A schedule such as 22:00-07:00 wraps around midnight
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * Sounds an alarm for every alert that pops up as a toast, and raises a
+ * desktop notification for critical ones while the tab is in the background.
+ * Alarms are silenced by the header mute toggle and during quiet hours.
+ */
+class AlertAlarmService {
+  private audioContext: AudioContext | null = null;
+  private lastAlarm: { severity: SocketAlertEvent['severity']; at: number } | null = null;
+
+  /**
+   * Raise alarms for captured alerts until the returned function is called.
+   * Started by the session layout alongside alert capture.
+   */
+  start(): () => void {
+    // Browsers only allow audio after the user has interacted with the page
+    const unlockAudio = () => {
+      this.getAudioContext()
+        ?.resume()
+        .catch(() => undefined);
+    };
+    document.addEventListener('pointerdown', unlockAudio, { once: true });
+    document.addEventListener('keydown', unlockAudio, { once: true });
+
+    const unsubscribe = alertHistoryService.onAdded((record) => this.handleAlert(record));
+
+    return () => {
+      unsubscribe();
+      document.removeEventListener('pointerdown', unlockAudio);
+      document.removeEventListener('keydown', unlockAudio);
+    };
+  }
+
+  getDesktopPermission(): DesktopNotificationPermission {
+    return 'Notification' in window ? Notification.permission : 'unsupported';
+  }
+
+  /**
+   * Ask the browser for permission to show desktop notifications
+   */
+  async requestDesktopPermission(): Promise<DesktopNotificationPermission> {
+    if (!('Notification' in window)) {
+      return 'unsupported';
+    }
+    return Notification.requestPermission();
+  }
+
+  /**
+   * Play the alarm of a severity regardless of mute and quiet hours (e.g. to preview it)
+   */
+  playAlarm(severity: SocketAlertEvent['severity']): void {
+    const context = this.getAudioContext();
+    if (!context) {
+      return;
+    }
+    if (context.state === 'suspended') {
+      context.resume().catch(() => undefined);
+    }
+
+    const { wave, notes } = ALARM_TONES[severity];
+    let startAt = context.currentTime;
+    notes.forEach(([frequency, durationMs]) => {
+      const duration = durationMs / 1000;
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = wave;
+      oscillator.frequency.value = frequency;
+      // Short fade in/out avoids clicks between notes
+      gain.gain.setValueAtTime(0.0001, startAt);
+      gain.gain.exponentialRampToValueAtTime(VOLUME, startAt + 0.01);
+      gain.gain.exponentialRampToValueAtTime(0.0001, startAt + duration);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(startAt);
+      oscillator.stop(startAt + duration);
+      startAt += duration + NOTE_GAP_MS / 1000;
+    });
+  }
+
+  private handleAlert(record: AlertRecord): void {
+    const siteId = authService.getSiteId();
+    if (siteId && record.siteId !== siteId) {
+      return;
+    }
+    const { alertToastRules, alertAlarms } = preferencesService.getPreferences();
+    // Toast rules only decide which lesser alerts pop up (and sound with their toast);
+    // critical alarms depend on nothing but mute and quiet hours
+    const isCritical = record.event.severity === 'critical';
+    if (!isCritical && !matchesToastRules(record.event, alertToastRules)) {
+      return;
+    }
+
+    const quiet = isQuietTime(alertAlarms.quietHours, new Date(record.receivedAt));
+    if (!alertAlarms.muted && !quiet && this.shouldPlay(record)) {
+      this.playAlarm(record.event.severity);
+    }
+    if (alertAlarms.desktopNotifications && isCritical) {
+      this.showDesktopNotification(record.event, quiet || alertAlarms.muted);
+    }
+  }
+
+  private shouldPlay(record: AlertRecord): boolean {
+    const { severity } = record.event;
+    if (
+      this.lastAlarm &&
+      record.receivedAt - this.lastAlarm.at < ALARM_THROTTLE_MS &&
+      isAtLeastSeverity(this.lastAlarm.severity, severity)
+    ) {
+      return false;
+    }
+    this.lastAlarm = { severity, at: record.receivedAt };
+    return true;
+  }
+
+  private showDesktopNotification(alert: SocketAlertEvent, silent: boolean): void {
+    if (this.getDesktopPermission() !== 'granted' || document.visibilityState === 'visible') {
+      return;
+    }
+    try {
+      const notification = new Notification(`Critical alert: ${formatEventName(alert)}`, {
+        body: [alert.zone.name, alert.message].filter(Boolean).join(' · '),
+        // Repeats of the same alert replace the previous notification
+        tag: getAlertDedupeKey(alert),
+        requireInteraction: true,
+        silent,
+      });
+      notification.onclick = () => {
+        window.focus();
+        notification.close();
+      };
+    } catch (error) {
+      console.warn('AlertAlarmService: Failed to show desktop notification:', error);
+    }
+  }
+
+  private getAudioContext(): AudioContext | null {
+    if (!this.audioContext && typeof AudioContext !== 'undefined') {
+      this.audioContext = new AudioContext();
+    }
+    return this.audioContext;
+  }
+}
+
+export const alertAlarmService = new AlertAlarmService();
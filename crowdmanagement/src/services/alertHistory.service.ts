@@ -0,0 +1,275 @@
+import type { SocketAlertEvent } from '../types/api';
+import { requiresAcknowledgement } from '../utils/alertFormat';
+import { authService } from './auth.service';
+import { socketService } from './socket.service';
+
+const DB_NAME = 'crowd_management';
+const DB_VERSION = 1;
+const ALERTS_STORE = 'alerts';
+
+// How long alerts are kept in the browser, configurable per deployment
+const RETENTION_DAYS = Number(import.meta.env.VITE_ALERT_RETENTION_DAYS) || 7;
+const RETENTION_MS = RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+export type AlertStatus = 'open' | 'acknowledged' | 'resolved';
+
+export interface AlertNote {
+  author: string;
+  text: string;
+  createdAt: number; // UTC timestamp (milliseconds)
+}
+
+/**
+ * Operator handling of a high/critical alert
+ */
+export interface AlertWorkflow {
+  status: AlertStatus;
+  acknowledgedBy?: string;
+  acknowledgedAt?: number;
+  assignee?: string;
+  resolvedBy?: string;
+  resolvedAt?: number;
+  notes: AlertNote[];
+}
+
+export interface AlertRecord {
+  id: string;
+  siteId: string; // Site the alert belongs to ('' when the event had none)
+  receivedAt: number; // UTC timestamp (milliseconds) the browser received it
+  read: boolean;
+  event: SocketAlertEvent;
+  workflow?: AlertWorkflow; // Only for alerts that need acknowledging
+}
+
+type AlertHistoryChangeHandler = (siteId: string) => void;
+type AlertAddedHandler = (record: AlertRecord) => void;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Every alert received over the socket, persisted in IndexedDB per site so
+ * the history survives reloads. Records older than the retention window are
+ * hidden from reads and pruned whenever capture starts.
+ */
+class AlertHistoryService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private changeHandlers: AlertHistoryChangeHandler[] = [];
+  private addedHandlers: AlertAddedHandler[] = [];
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(ALERTS_STORE)) {
+            const store = db.createObjectStore(ALERTS_STORE, { keyPath: 'id' });
+            store.createIndex('siteId', 'siteId');
+            store.createIndex('receivedAt', 'receivedAt');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).catch((error) => {
+        // Allow a later call to try again (e.g. private mode blocking storage)
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Record every socket alert until the returned function is called.
+   * Started by the session layout right after login.
+   */
+  startCapture(): () => void {
+    this.pruneExpired().catch((error) => {
+      console.warn('AlertHistoryService: Failed to prune expired alerts:', error);
+    });
+    return socketService.onAlert((event) => {
+      this.addAlert(event).catch((error) => {
+        console.error('AlertHistoryService: Failed to store alert:', error);
+      });
+    });
+  }
+
+  async addAlert(event: SocketAlertEvent): Promise<AlertRecord> {
+    const record: AlertRecord = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+      // Alerts without a site came over the connection scoped to the active site
+      siteId: event.site.id || authService.getSiteId() || '',
+      receivedAt: Date.now(),
+      read: false,
+      event,
+      ...(requiresAcknowledgement(event) ? { workflow: { status: 'open', notes: [] } } : {}),
+    };
+
+    const db = await this.openDb();
+    const transaction = db.transaction(ALERTS_STORE, 'readwrite');
+    transaction.objectStore(ALERTS_STORE).put(record);
+    await transactionDone(transaction);
+
+    this.addedHandlers.forEach((handler) => handler(record));
+    this.notifyChange(record.siteId);
+    return record;
+  }
+
+  /**
+   * Alerts of a site within the retention window, newest first
+   */
+  async getAlerts(siteId: string): Promise<AlertRecord[]> {
+    const db = await this.openDb();
+    const index = db
+      .transaction(ALERTS_STORE, 'readonly')
+      .objectStore(ALERTS_STORE)
+      .index('siteId');
+    const records = await requestToPromise(index.getAll(siteId) as IDBRequest<AlertRecord[]>);
+    const cutoff = Date.now() - RETENTION_MS;
+    return records
+      .filter((record) => record.receivedAt >= cutoff)
+      .sort((a, b) => b.receivedAt - a.receivedAt);
+  }
+
+  async markAllRead(siteId: string): Promise<void> {
+    const alerts = await this.getAlerts(siteId);
+    const unread = alerts.filter((record) => !record.read);
+    if (unread.length === 0) {
+      return;
+    }
+
+    const db = await this.openDb();
+    const transaction = db.transaction(ALERTS_STORE, 'readwrite');
+    const store = transaction.objectStore(ALERTS_STORE);
+    unread.forEach((record) => store.put({ ...record, read: true }));
+    await transactionDone(transaction);
+
+    this.notifyChange(siteId);
+  }
+
+  acknowledge(id: string): Promise<AlertRecord> {
+    return this.updateWorkflow(id, (workflow) => ({
+      ...workflow,
+      status: workflow.status === 'open' ? 'acknowledged' : workflow.status,
+      acknowledgedBy: workflow.acknowledgedBy ?? authService.getUserDisplayName(),
+      acknowledgedAt: workflow.acknowledgedAt ?? Date.now(),
+    }));
+  }
+
+  assign(id: string, assignee: string): Promise<AlertRecord> {
+    return this.updateWorkflow(id, (workflow) => ({
+      ...workflow,
+      assignee: assignee.trim() || undefined,
+    }));
+  }
+
+  addNote(id: string, text: string): Promise<AlertRecord> {
+    return this.updateWorkflow(id, (workflow) => ({
+      ...workflow,
+      notes: [
+        ...workflow.notes,
+        { author: authService.getUserDisplayName(), text: text.trim(), createdAt: Date.now() },
+      ],
+    }));
+  }
+
+  /**
+   * Resolving also acknowledges an alert nobody acknowledged yet
+   */
+  resolve(id: string): Promise<AlertRecord> {
+    const user = authService.getUserDisplayName();
+    const now = Date.now();
+    return this.updateWorkflow(id, (workflow) => ({
+      ...workflow,
+      status: 'resolved',
+      acknowledgedBy: workflow.acknowledgedBy ?? user,
+      acknowledgedAt: workflow.acknowledgedAt ?? now,
+      resolvedBy: user,
+      resolvedAt: now,
+    }));
+  }
+
+  /**
+   * Delete alerts older than the retention window, across all sites
+   */
+  async pruneExpired(): Promise<void> {
+    const db = await this.openDb();
+    const transaction = db.transaction(ALERTS_STORE, 'readwrite');
+    const range = IDBKeyRange.upperBound(Date.now() - RETENTION_MS, true);
+    const request = transaction.objectStore(ALERTS_STORE).index('receivedAt').openCursor(range);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Called with the site whose history changed (alert added or read state updated)
+   */
+  onChange(handler: AlertHistoryChangeHandler): () => void {
+    this.changeHandlers.push(handler);
+    // Return unsubscribe function
+    return () => {
+      this.changeHandlers = this.changeHandlers.filter((h) => h !== handler);
+    };
+  }
+
+  /**
+   * Called once for each newly captured alert
+   */
+  onAdded(handler: AlertAddedHandler): () => void {
+    this.addedHandlers.push(handler);
+    // Return unsubscribe function
+    return () => {
+      this.addedHandlers = this.addedHandlers.filter((h) => h !== handler);
+    };
+  }
+
+  private async updateWorkflow(
+    id: string,
+    update: (workflow: AlertWorkflow) => AlertWorkflow
+  ): Promise<AlertRecord> {
+    const db = await this.openDb();
+    const transaction = db.transaction(ALERTS_STORE, 'readwrite');
+    const store = transaction.objectStore(ALERTS_STORE);
+    const record = await requestToPromise(store.get(id) as IDBRequest<AlertRecord | undefined>);
+    if (!record) {
+      throw new Error(`Alert ${id} not found`);
+    }
+
+    // Handling an alert also means it has been seen
+    const updated: AlertRecord = {
+      ...record,
+      read: true,
+      workflow: update(record.workflow ?? { status: 'open', notes: [] }),
+    };
+    store.put(updated);
+    await transactionDone(transaction);
+
+    this.notifyChange(updated.siteId);
+    return updated;
+  }
+
+  private notifyChange(siteId: string): void {
+    this.changeHandlers.forEach((handler) => handler(siteId));
+  }
+}
+
+export const alertHistoryService = new AlertHistoryService();
@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { authService } from './auth.service';
+import { apiClient } from './apiClient';
 import type {
   AnalyticsDwellRequest,
   AnalyticsDwellResponse,
@@ -11,65 +11,17 @@ import type {
   AnalyticsDemographicsResponse,
   EntryExitRequest,
   EntryExitResponse,
+  CrowdEntry,
 } from '../types/api';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
 
+// Records per request when walking every page of entries (e.g. for exports)
+const EXPORT_PAGE_SIZE = 200;
+
 // Log API base URL on service initialization
 console.log('AnalyticsService: API Base URL configured as:', API_BASE_URL);
 
-// Create axios instance with default config
-const apiClient = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-  timeout: 30000, // 30 seconds timeout (reduced for faster failure detection)
-});
-
-// Add request interceptor to include auth token
-apiClient.interceptors.request.use(
-  (config) => {
-    const token = authService.getToken();
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
-    }
-    return config;
-  },
-  (error) => {
-    return Promise.reject(error);
-  }
-);
-
-// Add response interceptor to handle auth errors and provide better error messages
-apiClient.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      authService.logout();
-      window.location.href = '/login';
-    }
-    
-    // Provide better error messages for common issues
-    if (error.response?.status === 502) {
-      console.error('502 Bad Gateway Error:', {
-        message: 'The backend server is not responding or the gateway cannot reach it.',
-        url: error.config?.url,
-        baseURL: error.config?.baseURL,
-        suggestions: [
-          '1. Check if the backend server is running',
-          '2. Verify the API URL in .env file (VITE_API_BASE_URL)',
-          '3. Check backend server logs for errors',
-          '4. Ensure the backend is accessible at the configured URL',
-          '5. If using a proxy/gateway, check its configuration'
-        ]
-      });
-    }
-    
-    return Promise.reject(error);
-  }
-);
-
 /**
  * Retry a promise with exponential backoff
  */
@@ -199,10 +151,51 @@ class AnalyticsService {
     );
   }
 
-  async getEntryExit(request: EntryExitRequest): Promise<EntryExitResponse> {
-    const response = await apiClient.post<EntryExitResponse>('/analytics/entry-exit', request);
+  async getEntryExit(
+    request: EntryExitRequest,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<EntryExitResponse> {
+    const response = await apiClient.post<EntryExitResponse>('/analytics/entry-exit', request, {
+      signal: options.signal,
+    });
     return response.data;
   }
+
+  /**
+   * Every entry/exit record of a request, walking all pages in turn.
+   * `onProgress` is called after each page; abort `signal` to stop early.
+   */
+  async getAllEntryExit(
+    request: Omit<EntryExitRequest, 'pageNumber' | 'pageSize'>,
+    options: {
+      signal?: AbortSignal;
+      pageSize?: number;
+      onProgress?: (progress: { fetched: number; total: number }) => void;
+    } = {}
+  ): Promise<CrowdEntry[]> {
+    const { signal, pageSize = EXPORT_PAGE_SIZE, onProgress } = options;
+    const records: CrowdEntry[] = [];
+    let pageNumber = 1;
+    let totalPages = 1;
+
+    do {
+      const response = await this.getEntryExit({ ...request, pageNumber, pageSize }, { signal });
+      const pageRecords = Array.isArray(response?.records) ? response.records : [];
+      records.push(...pageRecords);
+      totalPages = typeof response?.totalPages === 'number' ? response.totalPages : 0;
+      onProgress?.({
+        fetched: records.length,
+        total: Math.max(records.length, response?.totalRecords || 0),
+      });
+      // Stop on an empty page in case the reported page count is off
+      if (pageRecords.length === 0) {
+        break;
+      }
+      pageNumber++;
+    } while (pageNumber <= totalPages);
+
+    return records;
+  }
 }
 
 export const analyticsService = new AnalyticsService();
@@ -0,0 +1,79 @@
+import axios from 'axios';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { authService } from './auth.service';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
+
+/**
+ * Axios instance for every authenticated API call: sends a valid token and
+ * retries once with a refreshed token on 401
+ */
+export const apiClient = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+  timeout: 30000, // 30 seconds timeout (reduced for faster failure detection)
+});
+
+// Add request interceptor to include auth token; waits for a token refresh in progress
+apiClient.interceptors.request.use(
+  async (config) => {
+    const token = await authService.getValidToken();
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
+    return config;
+  },
+  (error) => {
+    return Promise.reject(error);
+  }
+);
+
+// Add response interceptor to handle auth errors and provide better error messages
+apiClient.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const config = error.config as
+      | (InternalAxiosRequestConfig & { _retried?: boolean })
+      | undefined;
+    if (error.response?.status === 401 && authService.getToken()) {
+      // Retry once with a refreshed token; the session is over if that fails
+      if (config && !config._retried) {
+        config._retried = true;
+        try {
+          // Requests sent before a refresh that already finished just need the new token
+          const sentToken = String(config.headers.Authorization || '').replace(/^Bearer /, '');
+          const currentToken = authService.getToken();
+          const token =
+            currentToken && currentToken !== sentToken
+              ? currentToken
+              : await authService.refreshToken();
+          config.headers.Authorization = `Bearer ${token}`;
+          return apiClient(config);
+        } catch (refreshError) {
+          console.warn('API: Token refresh after 401 failed:', refreshError);
+        }
+      }
+      authService.expireSession();
+    }
+
+    // Provide better error messages for common issues
+    if (error.response?.status === 502) {
+      console.error('502 Bad Gateway Error:', {
+        message: 'The backend server is not responding or the gateway cannot reach it.',
+        url: error.config?.url,
+        baseURL: error.config?.baseURL,
+        suggestions: [
+          '1. Check if the backend server is running',
+          '2. Verify the API URL in .env file (VITE_API_BASE_URL)',
+          '3. Check backend server logs for errors',
+          '4. Ensure the backend is accessible at the configured URL',
+          '5. If using a proxy/gateway, check its configuration',
+        ],
+      });
+    }
+
+    return Promise.reject(error);
+  }
+);
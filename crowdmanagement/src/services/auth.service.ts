@@ -1,10 +1,34 @@
 import axios from 'axios';
-import type { LoginRequest, LoginResponse, SitesResponse } from '../types/api';
+import type {
+  AuthUser,
+  LoginRequest,
+  LoginResponse,
+  RefreshTokenResponse,
+  SitesResponse,
+} from '../types/api';
+import { getPermissionsFromClaims, getRoleFromClaims } from '../utils/permissions';
+import type { Permission, Role } from '../utils/permissions';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
 
 const TOKEN_KEY = 'auth_token';
 const SITE_ID_KEY = 'site_id';
+const USER_KEY = 'auth_user';
+const REFRESH_TOKEN_KEY = 'auth_refresh_token';
+
+// Refresh this long before the token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+// Wait between failed refresh attempts
+const REFRESH_RETRY_MS = 15 * 1000;
+// Longest delay setTimeout accepts; later expiries are rescheduled when it fires
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+// Re-issue tokens locally instead of calling /auth/refresh (development only)
+const MOCK_TOKEN_REFRESH = import.meta.env.VITE_MOCK_TOKEN_REFRESH === 'true';
+
+type SiteChangeHandler = (siteId: string | null) => void;
+type UserChangeHandler = (user: AuthUser | null) => void;
+type TokenChangeHandler = (token: string) => void;
+type SessionExpiredHandler = () => void;
 
 /**
  * Decode JWT token to extract payload
@@ -17,8 +41,8 @@ function decodeJWT(token: string): any | null {
       return null; // Not a valid JWT format
     }
     
-    // Decode the payload (second part)
-    const payload = parts[1];
+    // Decode the payload (second part); JWTs use the URL-safe base64 alphabet
+    const payload = parts[1].replace(/-/g, '+').replace(/_/g, '/');
     // Add padding if needed for base64 decoding
     const paddedPayload = payload + '='.repeat((4 - (payload.length % 4)) % 4);
     const decoded = atob(paddedPayload);
@@ -29,14 +53,54 @@ function decodeJWT(token: string): any | null {
   }
 }
 
+/**
+ * Expiry of a token from its `exp` claim (UTC milliseconds), or null if it has none
+ */
+function getTokenExpiry(token: string): number | null {
+  const exp = decodeJWT(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
+
+/**
+ * Local stand-in for /auth/refresh: the same claims with a fresh expiry.
+ * The signature is not re-computed, so only use it against a mock backend.
+ */
+function mockRefreshToken(token: string): RefreshTokenResponse {
+  const [header, , signature] = token.split('.');
+  const claims = decodeJWT(token) || {};
+  const now = Math.floor(Date.now() / 1000);
+  const lifetime =
+    typeof claims.exp === 'number' && typeof claims.iat === 'number'
+      ? claims.exp - claims.iat
+      : 60 * 60;
+  const payload = btoa(JSON.stringify({ ...claims, iat: now, exp: now + lifetime }))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  return { token: [header, payload, signature].join('.') };
+}
+
 class AuthService {
   private token: string | null = null;
   private siteId: string | null = null;
+  private siteChangeHandlers: SiteChangeHandler[] = [];
+  private userChangeHandlers: UserChangeHandler[] = [];
+  private tokenChangeHandlers: TokenChangeHandler[] = [];
+  private sessionExpiredHandlers: SessionExpiredHandler[] = [];
+  private user: AuthUser | null = null;
+  private refreshPromise: Promise<string> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor() {
     // Load token and siteId from localStorage on initialization
     this.token = localStorage.getItem(TOKEN_KEY);
     this.siteId = localStorage.getItem(SITE_ID_KEY);
+    try {
+      const storedUser = localStorage.getItem(USER_KEY);
+      this.user = storedUser ? JSON.parse(storedUser) : null;
+    } catch (error) {
+      console.warn('Failed to read stored user:', error);
+    }
     
     // Fallback to environment variable if siteId not in storage
     const envSiteId = import.meta.env.VITE_SITE_ID;
@@ -44,6 +108,9 @@ class AuthService {
       this.siteId = envSiteId;
       localStorage.setItem(SITE_ID_KEY, this.siteId);
     }
+
+    // Keep a stored session alive across reloads
+    this.scheduleRefresh();
   }
 
   /**
@@ -159,9 +226,22 @@ class AuthService {
         throw new Error('Login failed: No token received from server');
       }
 
+      this.setRefreshToken(response.data.refreshToken || null);
       this.setToken(response.data.token);
       console.log('AuthService: Token stored successfully');
 
+      // Remember who is signed in (used to attribute alert acknowledgements)
+      const user = response.data.user || this.getUserFromToken(response.data.token);
+      this.user = user
+        ? { id: user.id, email: user.email, ...(user.name ? { name: user.name } : {}) }
+        : null;
+      if (this.user) {
+        localStorage.setItem(USER_KEY, JSON.stringify(this.user));
+      } else {
+        localStorage.removeItem(USER_KEY);
+      }
+      this.notifyUserChange(this.getUser());
+
       // Try to get siteId from multiple sources:
       // 1. Direct from login response (top-level)
       // 2. From user object in login response
@@ -282,21 +362,210 @@ class AuthService {
   logout(): void {
     this.token = null;
     this.siteId = null;
+    this.user = null;
+    this.clearRefreshTimer();
     localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
     localStorage.removeItem(SITE_ID_KEY);
+    localStorage.removeItem(USER_KEY);
+    this.notifySiteChange(null);
+    this.notifyUserChange(null);
+  }
+
+  /**
+   * Sign out because the token expired and could not be refreshed.
+   * Subscribers (the session layout) send the user back to the login page.
+   */
+  expireSession(): void {
+    if (!this.getToken()) {
+      return;
+    }
+    console.warn('AuthService: Session expired');
+    this.logout();
+    this.sessionExpiredHandlers.forEach((handler) => handler());
   }
 
   setToken(token: string): void {
     this.token = token;
     localStorage.setItem(TOKEN_KEY, token);
+    this.scheduleRefresh();
+    this.tokenChangeHandlers.forEach((handler) => handler(token));
   }
 
   getToken(): string | null {
     return this.token || localStorage.getItem(TOKEN_KEY);
   }
 
+  /**
+   * Signed in with a token that is still valid, or that can be refreshed
+   */
   isAuthenticated(): boolean {
-    return !!this.getToken();
+    const token = this.getToken();
+    if (!token) {
+      return false;
+    }
+    return !this.isTokenExpired(token) || this.canRefresh();
+  }
+
+  /**
+   * Current token, refreshed first when it is about to expire. Waits for a
+   * refresh already in progress, so requests queue behind it.
+   */
+  async getValidToken(): Promise<string | null> {
+    const token = this.getToken();
+    if (!token) {
+      return null;
+    }
+    const expiresAt = getTokenExpiry(token);
+    if (
+      !this.refreshPromise &&
+      (expiresAt === null || expiresAt - Date.now() > REFRESH_MARGIN_MS)
+    ) {
+      return token;
+    }
+    try {
+      return await this.refreshToken();
+    } catch (error) {
+      console.warn('AuthService: Token refresh failed:', error);
+      return this.getToken();
+    }
+  }
+
+  /**
+   * Exchange the current token for a new one. Concurrent callers share a
+   * single request to /auth/refresh.
+   */
+  refreshToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.requestTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Subscribe to new tokens (login, silent refresh)
+   */
+  onTokenChange(handler: TokenChangeHandler): () => void {
+    this.tokenChangeHandlers.push(handler);
+    // Return unsubscribe function
+    return () => {
+      this.tokenChangeHandlers = this.tokenChangeHandlers.filter((h) => h !== handler);
+    };
+  }
+
+  /**
+   * Subscribe to the session ending because its token expired
+   */
+  onSessionExpired(handler: SessionExpiredHandler): () => void {
+    this.sessionExpiredHandlers.push(handler);
+    // Return unsubscribe function
+    return () => {
+      this.sessionExpiredHandlers = this.sessionExpiredHandlers.filter((h) => h !== handler);
+    };
+  }
+
+  private async requestTokenRefresh(): Promise<string> {
+    const token = this.getToken();
+    if (!token) {
+      throw new Error('Cannot refresh: No authentication token');
+    }
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    let data: RefreshTokenResponse;
+    if (MOCK_TOKEN_REFRESH) {
+      data = mockRefreshToken(token);
+    } else {
+      const response = await axios.post<RefreshTokenResponse>(
+        `${API_BASE_URL}/auth/refresh`,
+        refreshToken ? { refreshToken } : {},
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      data = response.data;
+    }
+    if (!data?.token) {
+      throw new Error('Token refresh failed: No token received from server');
+    }
+    // The user may have signed out while the request was in flight
+    if (!this.getToken()) {
+      throw new Error('Token refresh finished after logout');
+    }
+    if (data.refreshToken) {
+      this.setRefreshToken(data.refreshToken);
+    }
+    console.log('AuthService: Token refreshed');
+    this.setToken(data.token);
+    return data.token;
+  }
+
+  private isTokenExpired(token: string): boolean {
+    const expiresAt = getTokenExpiry(token);
+    return expiresAt !== null && expiresAt <= Date.now();
+  }
+
+  // An expired token can still be exchanged with a refresh token (or the mock)
+  private canRefresh(): boolean {
+    return MOCK_TOKEN_REFRESH || !!localStorage.getItem(REFRESH_TOKEN_KEY);
+  }
+
+  private setRefreshToken(refreshToken: string | null): void {
+    if (refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    } else {
+      localStorage.removeItem(REFRESH_TOKEN_KEY);
+    }
+  }
+
+  // Refresh shortly before the token expires, so requests never carry an expired token
+  private scheduleRefresh(): void {
+    this.clearRefreshTimer();
+    const token = this.getToken();
+    const expiresAt = token ? getTokenExpiry(token) : null;
+    if (expiresAt === null) {
+      return;
+    }
+    const delay = Math.min(
+      Math.max(0, expiresAt - REFRESH_MARGIN_MS - Date.now()),
+      MAX_TIMER_DELAY_MS
+    );
+    this.refreshTimer = setTimeout(() => this.runScheduledRefresh(expiresAt), delay);
+  }
+
+  private runScheduledRefresh(expiresAt: number): void {
+    this.refreshTimer = null;
+    if (expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+      // Woke up early because of the timer limit
+      this.scheduleRefresh();
+      return;
+    }
+    this.refreshToken().catch((error) => {
+      console.warn('AuthService: Silent token refresh failed:', error);
+      if (!this.getToken()) {
+        return;
+      }
+      const isRejected =
+        axios.isAxiosError(error) &&
+        (error.response?.status === 401 || error.response?.status === 403);
+      const remaining = expiresAt - Date.now();
+      if (remaining > 0) {
+        this.refreshTimer = setTimeout(
+          () => this.runScheduledRefresh(expiresAt),
+          Math.min(REFRESH_RETRY_MS, remaining)
+        );
+      } else if (this.canRefresh() && !isRejected) {
+        // Expired, but the refresh token can still be exchanged once the server is reachable
+        this.refreshTimer = setTimeout(() => this.runScheduledRefresh(expiresAt), REFRESH_RETRY_MS);
+      } else {
+        this.expireSession();
+      }
+    });
+  }
+
+  private clearRefreshTimer(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
   }
 
   getAuthHeaders(): Record<string, string> {
@@ -309,13 +578,93 @@ class AuthService {
   }
 
   setSiteId(siteId: string): void {
+    const changed = siteId !== this.getSiteId();
     this.siteId = siteId;
     localStorage.setItem(SITE_ID_KEY, siteId);
+    if (changed) {
+      this.notifySiteChange(siteId);
+    }
   }
 
   getSiteId(): string | null {
     return this.siteId || localStorage.getItem(SITE_ID_KEY);
   }
+
+  /**
+   * The signed-in user, from the login response or the token's claims
+   */
+  getUser(): AuthUser | null {
+    if (this.user) {
+      return this.user;
+    }
+    const token = this.getToken();
+    return token ? this.getUserFromToken(token) : null;
+  }
+
+  /**
+   * Name shown when attributing actions to the signed-in user
+   */
+  getUserDisplayName(): string {
+    const user = this.getUser();
+    return user?.name || user?.email || 'Unknown user';
+  }
+
+  /**
+   * Role of the signed-in user, read from the token's claims
+   */
+  getRole(): Role {
+    const token = this.getToken();
+    return getRoleFromClaims(token ? decodeJWT(token) : null);
+  }
+
+  hasPermission(permission: Permission): boolean {
+    const token = this.getToken();
+    return !!token && getPermissionsFromClaims(decodeJWT(token)).includes(permission);
+  }
+
+  private getUserFromToken(token: string): AuthUser | null {
+    const payload = decodeJWT(token);
+    if (!payload) {
+      return null;
+    }
+    const email = payload.email || payload.user?.email;
+    const id = payload.sub || payload.userId || payload.user?.id || email;
+    if (!id && !email) {
+      return null;
+    }
+    const name = payload.name || payload.user?.name;
+    return { id: String(id), email: email || '', ...(name ? { name } : {}) };
+  }
+
+  /**
+   * Subscribe to active site changes (site switcher, login, logout)
+   */
+  onSiteChange(handler: SiteChangeHandler): () => void {
+    this.siteChangeHandlers.push(handler);
+    // Return unsubscribe function
+    return () => {
+      this.siteChangeHandlers = this.siteChangeHandlers.filter((h) => h !== handler);
+    };
+  }
+
+  private notifySiteChange(siteId: string | null): void {
+    this.siteChangeHandlers.forEach((handler) => handler(siteId));
+  }
+
+  /**
+   * Subscribe to the signed-in user changing (login, logout)
+   */
+  onUserChange(handler: UserChangeHandler): () => void {
+    this.userChangeHandlers.push(handler);
+    // Return unsubscribe function
+    return () => {
+      this.userChangeHandlers = this.userChangeHandlers.filter((h) => h !== handler);
+    };
+  }
+
+  private notifyUserChange(user: AuthUser | null): void {
+    this.userChangeHandlers.forEach((handler) => handler(user));
+  }
 }
 
 export const authService = new AuthService();
@@ -0,0 +1,190 @@
+import type { SocketAlertEvent, SocketLiveOccupancyEvent } from '../types/api';
+import {
+  DEFAULT_CAPACITY_THRESHOLDS,
+  getOccupancyPercentage,
+  getSettledCapacityBand,
+  isHigherBand,
+} from '../utils/capacity';
+import type { CapacityBand, CapacityThresholds } from '../utils/capacity';
+import { alertHistoryService } from './alertHistory.service';
+import { authService } from './auth.service';
+import { socketService } from './socket.service';
+
+/**
+ * Capacity limits an admin configured for a site and its zones
+ */
+export interface SiteCapacityConfig {
+  siteCapacity: number | null;
+  zoneCapacities: Record<string, number>; // By zone id
+  thresholds: CapacityThresholds;
+}
+
+type CapacityChangeHandler = (siteId: string) => void;
+
+const CAPACITY_CONFIG_KEY = 'capacity_config';
+
+// Minimum time between two alerts for the same band of a site or zone
+const BAND_ALERT_COOLDOWN_MS = 5 * 60 * 1000;
+
+const BAND_ALERT_SEVERITY: Record<CapacityBand, SocketAlertEvent['severity']> = {
+  normal: 'low',
+  warning: 'medium',
+  critical: 'critical',
+};
+
+function emptyConfig(): SiteCapacityConfig {
+  return { siteCapacity: null, zoneCapacities: {}, thresholds: DEFAULT_CAPACITY_THRESHOLDS };
+}
+
+function limitKey(siteId: string, zoneId?: string | null): string {
+  return `${siteId}|${zoneId || ''}`;
+}
+
+/**
+ * Capacity of each site and zone, taken from the admin configuration
+ * (persisted in localStorage) or else from the `maxCapacity` reported by live
+ * occupancy events. While monitoring, raises a local alert whenever live
+ * occupancy settles into a different capacity band, at most once per band
+ * and site/zone within a cooldown.
+ */
+class CapacityService {
+  private configs: Record<string, SiteCapacityConfig> = {};
+  private reportedCapacities = new Map<string, number>();
+  private bands = new Map<string, CapacityBand>();
+  private lastBandAlerts = new Map<string, number>(); // By site|zone|band
+  private changeHandlers: CapacityChangeHandler[] = [];
+
+  constructor() {
+    try {
+      const stored = localStorage.getItem(CAPACITY_CONFIG_KEY);
+      if (stored) {
+        this.configs = JSON.parse(stored);
+      }
+    } catch (error) {
+      console.warn('CapacityService: Failed to read stored capacity config:', error);
+    }
+  }
+
+  getConfig(siteId: string): SiteCapacityConfig {
+    return { ...emptyConfig(), ...this.configs[siteId] };
+  }
+
+  updateConfig(siteId: string, changes: Partial<SiteCapacityConfig>): void {
+    this.configs = { ...this.configs, [siteId]: { ...this.getConfig(siteId), ...changes } };
+    localStorage.setItem(CAPACITY_CONFIG_KEY, JSON.stringify(this.configs));
+    this.notifyChange(siteId);
+  }
+
+  /**
+   * Capacity of a site, or of one of its zones when `zoneId` is given.
+   * A configured limit takes precedence over the one reported by the server.
+   */
+  getCapacity(siteId: string, zoneId?: string | null): number | null {
+    const config = this.configs[siteId];
+    const configured = zoneId ? config?.zoneCapacities[zoneId] : config?.siteCapacity;
+    return configured || this.getReportedCapacity(siteId, zoneId);
+  }
+
+  /**
+   * Latest `maxCapacity` the live feed reported for a site or zone
+   */
+  getReportedCapacity(siteId: string, zoneId?: string | null): number | null {
+    return this.reportedCapacities.get(limitKey(siteId, zoneId)) ?? null;
+  }
+
+  getThresholds(siteId: string): CapacityThresholds {
+    return this.configs[siteId]?.thresholds ?? DEFAULT_CAPACITY_THRESHOLDS;
+  }
+
+  /**
+   * Watch live occupancy until the returned function is called.
+   * Started by the session layout right after login.
+   */
+  startMonitoring(): () => void {
+    const unsubscribe = socketService.onLiveOccupancy((event) => this.handleOccupancy(event));
+    return () => {
+      unsubscribe();
+      this.bands.clear();
+      this.lastBandAlerts.clear();
+    };
+  }
+
+  onChange(handler: CapacityChangeHandler): () => void {
+    this.changeHandlers.push(handler);
+    // Return unsubscribe function
+    return () => {
+      this.changeHandlers = this.changeHandlers.filter((h) => h !== handler);
+    };
+  }
+
+  private handleOccupancy(event: SocketLiveOccupancyEvent): void {
+    const siteId = event.siteId || authService.getSiteId();
+    if (!siteId) {
+      return;
+    }
+    const key = limitKey(siteId, event.zoneId);
+
+    if (event.maxCapacity && this.reportedCapacities.get(key) !== event.maxCapacity) {
+      this.reportedCapacities.set(key, event.maxCapacity);
+      this.notifyChange(siteId);
+    }
+
+    const capacity = this.getCapacity(siteId, event.zoneId);
+    // Occupancy starts out in the normal band, so an already crowded first reading alerts too
+    const previousBand = this.bands.get(key) ?? 'normal';
+    const band = getSettledCapacityBand(
+      event.occupancy,
+      capacity,
+      this.getThresholds(siteId),
+      previousBand
+    );
+    if (!band) {
+      return;
+    }
+    this.bands.set(key, band);
+    if (band === previousBand) {
+      return;
+    }
+    // Still track the band, but don't repeat an alert that was raised moments ago
+    const alertKey = `${key}|${band}`;
+    const now = Date.now();
+    const lastAlertAt = this.lastBandAlerts.get(alertKey);
+    if (lastAlertAt !== undefined && now - lastAlertAt < BAND_ALERT_COOLDOWN_MS) {
+      return;
+    }
+    this.lastBandAlerts.set(alertKey, now);
+    this.raiseBandAlert(event, siteId, capacity as number, band, previousBand);
+  }
+
+  private raiseBandAlert(
+    event: SocketLiveOccupancyEvent,
+    siteId: string,
+    capacity: number,
+    band: CapacityBand,
+    previousBand: CapacityBand
+  ): void {
+    const place = event.zoneName || event.siteName || (event.zoneId ? 'Zone' : 'Site');
+    const percentage = getOccupancyPercentage(event.occupancy, capacity);
+    const change = isHigherBand(band, previousBand)
+      ? `reached ${band} level`
+      : `back to ${band === 'normal' ? 'normal' : `${band} level`}`;
+
+    const alert: SocketAlertEvent = {
+      action: 'zone_activity',
+      zone: { id: event.zoneId || '', name: event.zoneName || '' },
+      site: { id: siteId, name: event.siteName || '' },
+      severity: BAND_ALERT_SEVERITY[band],
+      timestamp: event.timestamp,
+      message: `${place} ${change}: ${event.occupancy} of ${capacity} (${percentage}% of capacity)`,
+    };
+    alertHistoryService.addAlert(alert).catch((error) => {
+      console.error('CapacityService: Failed to store capacity alert:', error);
+    });
+  }
+
+  private notifyChange(siteId: string): void {
+    this.changeHandlers.forEach((handler) => handler(siteId));
+  }
+}
+
+export const capacityService = new CapacityService();
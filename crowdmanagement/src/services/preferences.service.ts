@@ -0,0 +1,148 @@
+import type { SocketAlertEvent } from '../types/api';
+import type { TrendComparison } from '../utils/trends';
+
+export type TimeDisplayMode = 'site' | 'local';
+
+/**
+ * Which incoming alerts pop up as toasts
+ */
+export interface AlertToastRules {
+  minSeverity: SocketAlertEvent['severity'];
+  zoneIds: string[]; // Empty means every zone
+  actions: SocketAlertEvent['action'][]; // Empty means every action
+}
+
+/**
+ * Alarm sounds and desktop notifications for incoming alerts
+ */
+export interface AlertAlarmSettings {
+  muted: boolean; // Header toggle silencing every alarm sound
+  desktopNotifications: boolean; // Opted in to the browser Notification API
+  quietHours: {
+    enabled: boolean;
+    start: string; // "HH:mm" in the viewer's local time
+    end: string; // "HH:mm", may be earlier than start to span midnight
+  };
+}
+
+/**
+ * How the Crowd Entries table pages through a range
+ */
+export interface EntriesViewSettings {
+  mode: 'pages' | 'scroll'; // Numbered pages, or one infinitely scrolling list
+  pageSize: number; // Rows per page, and per request when scrolling
+}
+
+/**
+ * Automatic sign-out of unattended terminals
+ */
+export interface SessionTimeoutSettings {
+  idleTimeoutMinutes: number; // Sign out after this long without input
+  kioskMode: boolean; // Wall displays: never sign out for inactivity
+}
+
+export interface Preferences {
+  timeDisplay: TimeDisplayMode; // Render times in the site's timezone or the viewer's
+  trendComparison: TrendComparison; // Period the summary card trends compare against
+  alertToastRules: AlertToastRules;
+  alertAlarms: AlertAlarmSettings;
+  entriesView: EntriesViewSettings;
+  sessionTimeout: SessionTimeoutSettings;
+}
+
+// Settings the user has chosen; anything missing follows DEFAULT_PREFERENCES
+type PreferencesOverrides = { [K in keyof Preferences]?: Partial<Preferences[K]> };
+
+type PreferencesChangeHandler = (preferences: Preferences) => void;
+
+const PREFERENCES_KEY = 'preferences';
+
+const DEFAULT_IDLE_TIMEOUT_MINUTES = Number(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES) || 15;
+
+const DEFAULT_PREFERENCES: Preferences = {
+  timeDisplay: 'site',
+  trendComparison: 'previous',
+  alertToastRules: {
+    minSeverity: 'medium',
+    zoneIds: [],
+    actions: [],
+  },
+  alertAlarms: {
+    muted: false,
+    desktopNotifications: false,
+    quietHours: { enabled: false, start: '22:00', end: '07:00' },
+  },
+  entriesView: {
+    mode: 'pages',
+    pageSize: 10,
+  },
+  sessionTimeout: {
+    idleTimeoutMinutes: DEFAULT_IDLE_TIMEOUT_MINUTES,
+    kioskMode: false,
+  },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * `overrides` on top of `base`, merging grouped settings one level deep so a
+ * setting left out keeps the value from `base`
+ */
+function mergePreferences<T extends object>(base: T, overrides: object): T {
+  const merged = { ...base } as Record<string, unknown>;
+  Object.entries(overrides).forEach(([key, value]) => {
+    const current = merged[key];
+    merged[key] = isPlainObject(current) && isPlainObject(value) ? { ...current, ...value } : value;
+  });
+  return merged as T;
+}
+
+/**
+ * Per-browser UI preferences persisted in localStorage. Only the settings
+ * the user changed are stored, so defaults (including those configured
+ * through the environment) apply to everything else.
+ */
+class PreferencesService {
+  private overrides: PreferencesOverrides = {};
+  private preferences: Preferences;
+  private changeHandlers: PreferencesChangeHandler[] = [];
+
+  constructor() {
+    try {
+      const stored = localStorage.getItem(PREFERENCES_KEY);
+      const parsed: unknown = stored ? JSON.parse(stored) : null;
+      if (isPlainObject(parsed)) {
+        this.overrides = parsed;
+      }
+    } catch (error) {
+      console.warn('PreferencesService: Failed to read stored preferences:', error);
+    }
+    this.preferences = mergePreferences(DEFAULT_PREFERENCES, this.overrides);
+  }
+
+  getPreferences(): Preferences {
+    return this.preferences;
+  }
+
+  /**
+   * Store the given settings; grouped settings may be passed partially
+   */
+  updatePreferences(changes: PreferencesOverrides): void {
+    this.overrides = mergePreferences(this.overrides, changes);
+    this.preferences = mergePreferences(DEFAULT_PREFERENCES, this.overrides);
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(this.overrides));
+    this.changeHandlers.forEach((handler) => handler(this.preferences));
+  }
+
+  onChange(handler: PreferencesChangeHandler): () => void {
+    this.changeHandlers.push(handler);
+    // Return unsubscribe function
+    return () => {
+      this.changeHandlers = this.changeHandlers.filter((h) => h !== handler);
+    };
+  }
+}
+
+export const preferencesService = new PreferencesService();
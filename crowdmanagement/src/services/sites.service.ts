@@ -0,0 +1,67 @@
+import { apiClient } from './apiClient';
+import { authService } from './auth.service';
+import type { Site } from '../types/api';
+
+/**
+ * Extract the site list from the /sites response.
+ * The API returns Site[] directly, but some deployments wrap it in { sites } or { data }.
+ */
+function extractSites(data: unknown): Site[] {
+  if (Array.isArray(data)) {
+    return data as Site[];
+  }
+  if (data && typeof data === 'object') {
+    const wrapped = data as { sites?: unknown; data?: unknown };
+    if (Array.isArray(wrapped.sites)) {
+      return wrapped.sites as Site[];
+    }
+    if (Array.isArray(wrapped.data)) {
+      return wrapped.data as Site[];
+    }
+    if ('siteId' in data) {
+      return [data as Site];
+    }
+  }
+  return [];
+}
+
+class SitesService {
+  private sitesPromise: Promise<Site[]> | null = null;
+  private cachedForToken: string | null = null;
+
+  /**
+   * Fetch all sites the user can access.
+   * The result is cached until the auth token changes (logout / new login).
+   */
+  async getSites(forceRefresh: boolean = false): Promise<Site[]> {
+    const token = authService.getToken();
+    if (!this.sitesPromise || forceRefresh || token !== this.cachedForToken) {
+      this.cachedForToken = token;
+      this.sitesPromise = this.fetchSites().catch((error) => {
+        // Don't cache failures so the next call retries
+        this.sitesPromise = null;
+        throw error;
+      });
+    }
+    return this.sitesPromise;
+  }
+
+  async getSite(siteId: string): Promise<Site | null> {
+    const sites = await this.getSites();
+    return sites.find((site) => site.siteId === siteId) || null;
+  }
+
+  private async fetchSites(): Promise<Site[]> {
+    const response = await apiClient.get<unknown>('/sites');
+    const sites = extractSites(response.data).filter(
+      (site) => site && typeof site.siteId === 'string'
+    );
+    console.log('SitesService: Loaded sites:', sites.length);
+    return sites.map((site) => ({
+      ...site,
+      zones: Array.isArray(site.zones) ? site.zones : [],
+    }));
+  }
+}
+
+export const sitesService = new SitesService();
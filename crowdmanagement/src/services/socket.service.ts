@@ -1,83 +1,134 @@
 import { io, Socket } from 'socket.io-client';
 import { authService } from './auth.service';
 import type { SocketAlertEvent, SocketLiveOccupancyEvent } from '../types/api';
+import { normalizeAlertEvent, normalizeOccupancyEvent } from '../utils/socketEvents';
 
 const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || 'http://localhost:3000';
 
+export type ConnectionStatus = 'connecting' | 'live' | 'reconnecting' | 'offline';
+
+export interface ReconnectGap {
+  disconnectedAt: number; // UTC timestamp (milliseconds) of the lost connection
+  reconnectedAt: number; // UTC timestamp (milliseconds) of the new connection
+}
+
 type AlertEventHandler = (event: SocketAlertEvent) => void;
 type OccupancyEventHandler = (event: SocketLiveOccupancyEvent) => void;
+type StatusChangeHandler = (status: ConnectionStatus) => void;
+type ReconnectHandler = (gap: ReconnectGap) => void;
 
 class SocketService {
   private socket: Socket | null = null;
   private alertHandlers: AlertEventHandler[] = [];
   private occupancyHandlers: OccupancyEventHandler[] = [];
+  private statusHandlers: StatusChangeHandler[] = [];
+  private reconnectHandlers: ReconnectHandler[] = [];
+  private status: ConnectionStatus = 'offline';
+  private disconnectedAt: number | null = null;
 
   connect(): void {
-    if (this.socket?.connected) {
+    // Already connected, or socket.io is still (re)trying on its own
+    if (this.socket?.connected || this.socket?.active) {
       return;
     }
+    // Drop a socket the server refused so its listeners don't report stale status
+    this.socket?.removeAllListeners();
+    this.socket?.io.removeAllListeners();
 
-    const token = authService.getToken();
-    if (!token) {
+    const auth = this.getHandshakeAuth();
+    if (!auth) {
       console.error('Cannot connect socket: No authentication token');
+      this.setStatus('offline');
       return;
     }
 
+    this.disconnectedAt = null;
+    this.setStatus('connecting');
+
     this.socket = io(SOCKET_URL, {
-      auth: {
-        token,
-      },
+      auth,
       transports: ['websocket', 'polling'],
     });
+    const socket = this.socket;
+
+    // Send the latest token on every retry; the one from the first handshake may have expired
+    socket.io.on('reconnect_attempt', () => {
+      const latestAuth = this.getHandshakeAuth();
+      if (!latestAuth) {
+        console.warn('SocketService: No token for reconnect, giving up');
+        this.disconnect();
+        return;
+      }
+      socket.auth = latestAuth;
+    });
 
-    this.socket.on('connect', () => {
+    socket.on('connect', () => {
       console.log('Socket connected');
+      this.setStatus('live');
+      if (this.disconnectedAt !== null) {
+        const gap = { disconnectedAt: this.disconnectedAt, reconnectedAt: Date.now() };
+        this.disconnectedAt = null;
+        this.reconnectHandlers.forEach((handler) => handler(gap));
+      }
     });
 
-    this.socket.on('disconnect', () => {
-      console.log('Socket disconnected');
+    socket.on('disconnect', (reason) => {
+      console.log('Socket disconnected:', reason);
+      if (this.disconnectedAt === null) {
+        this.disconnectedAt = Date.now();
+      }
+      if (reason === 'io server disconnect') {
+        // The server dropped us (e.g. rejected token); socket.io won't retry on its own
+        const latestAuth = this.getHandshakeAuth();
+        if (latestAuth) {
+          socket.auth = latestAuth;
+          socket.connect();
+        }
+      }
+      this.setStatus(socket.active ? 'reconnecting' : 'offline');
     });
 
-    this.socket.on('connect_error', (error) => {
+    socket.on('connect_error', (error) => {
       console.error('Socket connection error:', error);
+      if (!socket.active) {
+        // Rejected by the server middleware, no automatic retry
+        this.setStatus('offline');
+      } else if (this.status !== 'connecting') {
+        this.setStatus('reconnecting');
+      }
     });
 
-    // Listen to alert events
-    this.socket.on('alert', (data: SocketAlertEvent) => {
-      this.alertHandlers.forEach((handler) => handler(data));
-    });
-
-    // Listen to live occupancy events
-    this.socket.on('live_occupancy', (data: any) => {
-      console.log('SocketService: Received live_occupancy event:', data);
-      console.log('SocketService: Data type:', typeof data);
-      console.log('SocketService: Data keys:', data ? Object.keys(data) : 'null');
-      console.log('SocketService: Raw data:', JSON.stringify(data, null, 2));
-      this.occupancyHandlers.forEach((handler) => handler(data));
+    // Payloads are normalized before they reach subscribers; malformed ones are dropped
+    socket.on('alert', (data: unknown) => {
+      const event = normalizeAlertEvent(data);
+      if (event) {
+        this.alertHandlers.forEach((handler) => handler(event));
+      }
     });
 
-    // Also listen to other possible event names
-    this.socket.on('occupancy', (data: any) => {
-      console.log('SocketService: Received occupancy event:', data);
-      console.log('SocketService: Data type:', typeof data);
-      console.log('SocketService: Data keys:', data ? Object.keys(data) : 'null');
-      this.occupancyHandlers.forEach((handler) => handler(data));
-    });
+    // Servers have used all three event names for live occupancy
+    const handleOccupancy = (data: unknown) => {
+      const event = normalizeOccupancyEvent(data);
+      if (event) {
+        this.occupancyHandlers.forEach((handler) => handler(event));
+      }
+    };
+    socket.on('live_occupancy', handleOccupancy);
+    socket.on('occupancy', handleOccupancy);
+    socket.on('liveOccupancy', handleOccupancy);
+  }
 
-    this.socket.on('liveOccupancy', (data: any) => {
-      console.log('SocketService: Received liveOccupancy event:', data);
-      console.log('SocketService: Data type:', typeof data);
-      console.log('SocketService: Data keys:', data ? Object.keys(data) : 'null');
-      this.occupancyHandlers.forEach((handler) => handler(data));
-    });
+  /**
+   * Re-open the connection (e.g. scoped to a newly selected site), keeping subscribers
+   */
+  reconnect(): void {
+    this.closeSocket();
+    this.connect();
   }
 
   disconnect(): void {
-    if (this.socket) {
-      this.socket.disconnect();
-      this.socket = null;
-    }
-    // Clear all handlers on disconnect
+    this.closeSocket();
+    // Clear all event handlers on disconnect; status subscribers outlive the connection
     this.alertHandlers = [];
     this.occupancyHandlers = [];
   }
@@ -98,9 +149,60 @@ class SocketService {
     };
   }
 
+  onStatusChange(handler: StatusChangeHandler): () => void {
+    this.statusHandlers.push(handler);
+    // Return unsubscribe function
+    return () => {
+      this.statusHandlers = this.statusHandlers.filter((h) => h !== handler);
+    };
+  }
+
+  /**
+   * Called after a dropped connection comes back, with the window in which
+   * live events may have been missed
+   */
+  onReconnect(handler: ReconnectHandler): () => void {
+    this.reconnectHandlers.push(handler);
+    // Return unsubscribe function
+    return () => {
+      this.reconnectHandlers = this.reconnectHandlers.filter((h) => h !== handler);
+    };
+  }
+
+  getStatus(): ConnectionStatus {
+    return this.status;
+  }
+
   isConnected(): boolean {
     return this.socket?.connected || false;
   }
+
+  private closeSocket(): void {
+    if (this.socket) {
+      this.socket.disconnect();
+      this.socket = null;
+    }
+    this.disconnectedAt = null;
+    this.setStatus('offline');
+  }
+
+  // Scope the connection to the active site so the server can filter events
+  private getHandshakeAuth(): { token: string; siteId?: string } | null {
+    const token = authService.getToken();
+    if (!token) {
+      return null;
+    }
+    const siteId = authService.getSiteId();
+    return { token, ...(siteId ? { siteId } : {}) };
+  }
+
+  private setStatus(status: ConnectionStatus): void {
+    if (this.status === status) {
+      return;
+    }
+    this.status = status;
+    this.statusHandlers.forEach((handler) => handler(status));
+  }
 }
 
 export const socketService = new SocketService();
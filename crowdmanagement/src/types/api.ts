@@ -6,17 +6,26 @@ export interface LoginRequest {
   password: string;
 }
 
+export interface AuthUser {
+  id: string;
+  email: string;
+  name?: string;
+}
+
 export interface LoginResponse {
   token: string;
-  user?: {
-    id: string;
-    email: string;
-    name?: string;
+  refreshToken?: string; // Exchanged for a new token at /auth/refresh
+  user?: AuthUser & {
     siteId?: string; // May come from login response
   };
   siteId?: string; // May be at top level
 }
 
+export interface RefreshTokenResponse {
+  token: string;
+  refreshToken?: string; // Rotated refresh token, if the server issues one
+}
+
 export interface Zone {
   zoneId: string;
   name: string;
@@ -69,6 +78,7 @@ export interface AnalyticsOccupancyRequest {
   siteId: string;
   fromUtc: number; // UTC timestamp (milliseconds)
   toUtc: number; // UTC timestamp (milliseconds)
+  zoneId?: string; // Optional - zone drilldown
 }
 
 export interface OccupancyBucket {
@@ -112,6 +122,7 @@ export interface EntryExitRequest {
   toUtc: number;
   pageSize: number;
   pageNumber: number;
+  zoneId?: string; // Optional - zone drilldown
 }
 
 export interface CrowdEntry {
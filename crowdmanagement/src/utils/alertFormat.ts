@@ -0,0 +1,116 @@
+import type { SocketAlertEvent } from '../types/api';
+import type { AlertToastRules } from '../services/preferences.service';
+
+export const ALERT_SEVERITIES: SocketAlertEvent['severity'][] = [
+  'low',
+  'medium',
+  'high',
+  'critical',
+];
+
+export const SEVERITY_COLORS: Record<SocketAlertEvent['severity'], string> = {
+  low: '#4caf50',
+  medium: '#ff9800',
+  high: '#f44336',
+  critical: '#d32f2f',
+};
+
+export const ALERT_ACTIONS: { value: SocketAlertEvent['action']; label: string }[] = [
+  { value: 'entry', label: 'Entry' },
+  { value: 'exit', label: 'Exit' },
+  { value: 'zone_activity', label: 'Zone activity' },
+];
+
+/**
+ * "<person> <action>" title of an alert, taking the person's name from the
+ * alert itself or, failing that, from its message
+ */
+export function formatEventName(alert: SocketAlertEvent): string {
+  // First, try to use personName if available
+  if (alert.personName) {
+    const actionFormatted = (alert.action || 'activity').replace('_', '-');
+    return `${alert.personName} ${actionFormatted}`;
+  }
+
+  const message = alert.message || '';
+  const action = alert.action || 'activity';
+
+  // Try multiple patterns to extract person name from message
+  // Pattern 1: "Name action" (e.g., "John Doe exit", "Amelia Halvorson Sr. exit")
+  let nameMatch = message.match(
+    /^([A-Za-z\s.]+?)\s+(entry|exit|zone-entry|zone-exit|zone_activity)/i
+  );
+
+  // Pattern 2: "action by Name" (e.g., "exit by John Doe")
+  if (!nameMatch) {
+    nameMatch = message.match(
+      /(entry|exit|zone-entry|zone-exit|zone_activity)\s+by\s+([A-Za-z\s.]+)/i
+    );
+    if (nameMatch && nameMatch[2]) {
+      const personName = nameMatch[2].trim();
+      const actionFormatted = action.replace('_', '-');
+      return `${personName} ${actionFormatted}`;
+    }
+  }
+
+  // Pattern 3: Check if message starts with a name (capitalized words, may include titles like "Sr.", "Jr.")
+  if (!nameMatch) {
+    nameMatch = message.match(/^([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*(?:\s+(?:Sr\.|Jr\.|II|III|IV))?)/);
+  }
+
+  if (nameMatch && nameMatch[1]) {
+    const personName = nameMatch[1].trim();
+    const actionFormatted = action.replace('_', '-');
+    return `${personName} ${actionFormatted}`;
+  }
+
+  // Fallback: use action with generic name
+  const actionFormatted = action.replace('_', '-');
+  return `Person ${actionFormatted}`;
+}
+
+/**
+ * Whether an alert is at least as severe as `minSeverity`
+ */
+export function isAtLeastSeverity(
+  severity: SocketAlertEvent['severity'],
+  minSeverity: SocketAlertEvent['severity']
+): boolean {
+  return ALERT_SEVERITIES.indexOf(severity) >= ALERT_SEVERITIES.indexOf(minSeverity);
+}
+
+export function matchesToastRules(alert: SocketAlertEvent, rules: AlertToastRules): boolean {
+  return (
+    isAtLeastSeverity(alert.severity, rules.minSeverity) &&
+    (rules.zoneIds.length === 0 || rules.zoneIds.includes(alert.zone.id)) &&
+    (rules.actions.length === 0 || rules.actions.includes(alert.action))
+  );
+}
+
+/**
+ * Alerts with the same key arriving in a burst are shown as one toast
+ */
+export function getAlertDedupeKey(alert: SocketAlertEvent): string {
+  const subject = alert.personId || alert.personName || alert.message || '';
+  return [alert.severity, alert.action, alert.zone.id, subject].join('|');
+}
+
+/**
+ * High and critical alerts must be acknowledged and resolved by an operator
+ */
+export function requiresAcknowledgement(alert: SocketAlertEvent): boolean {
+  return alert.severity === 'high' || alert.severity === 'critical';
+}
+
+export function getSeverityClass(severity: string): string {
+  switch (severity?.toLowerCase()) {
+    case 'high':
+    case 'critical':
+      return 'severity-high';
+    case 'medium':
+      return 'severity-medium';
+    case 'low':
+    default:
+      return 'severity-low';
+  }
+}
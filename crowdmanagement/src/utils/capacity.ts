@@ -0,0 +1,87 @@
+export type CapacityBand = 'normal' | 'warning' | 'critical';
+
+/**
+ * Occupancy percentages at which a site or zone enters the warning and critical bands
+ */
+export interface CapacityThresholds {
+  warningPercent: number;
+  criticalPercent: number;
+}
+
+export const DEFAULT_CAPACITY_THRESHOLDS: CapacityThresholds = {
+  warningPercent: 80,
+  criticalPercent: 95,
+};
+
+export const CAPACITY_BAND_COLORS: Record<CapacityBand, string> = {
+  normal: '#4caf50',
+  warning: '#ff9800',
+  critical: '#d32f2f',
+};
+
+const BAND_ORDER: CapacityBand[] = ['normal', 'warning', 'critical'];
+
+// Percentage points occupancy must fall below a threshold before its band is left
+const BAND_HYSTERESIS_PERCENT = 5;
+
+/**
+ * Occupancy as a percentage of capacity, rounded to a whole number.
+ * Null when either value is unknown.
+ */
+export function getOccupancyPercentage(
+  occupancy: number | null,
+  capacity: number | null
+): number | null {
+  if (occupancy === null || capacity === null || capacity <= 0) {
+    return null;
+  }
+  return Math.round((occupancy / capacity) * 100);
+}
+
+export function getCapacityBand(
+  occupancy: number | null,
+  capacity: number | null,
+  thresholds: CapacityThresholds
+): CapacityBand | null {
+  const percentage = getOccupancyPercentage(occupancy, capacity);
+  if (percentage === null) {
+    return null;
+  }
+  if (percentage >= thresholds.criticalPercent) {
+    return 'critical';
+  }
+  return percentage >= thresholds.warningPercent ? 'warning' : 'normal';
+}
+
+/**
+ * Band of the occupancy given the band it was in before: moving up happens at
+ * the thresholds, but dropping back needs occupancy `BAND_HYSTERESIS_PERCENT`
+ * below them, so readings hovering around a threshold don't flip the band.
+ */
+export function getSettledCapacityBand(
+  occupancy: number | null,
+  capacity: number | null,
+  thresholds: CapacityThresholds,
+  previousBand: CapacityBand
+): CapacityBand | null {
+  const band = getCapacityBand(occupancy, capacity, thresholds);
+  if (!band || !isHigherBand(previousBand, band)) {
+    return band;
+  }
+  const lowered = getCapacityBand(occupancy, capacity, {
+    warningPercent: thresholds.warningPercent - BAND_HYSTERESIS_PERCENT,
+    criticalPercent: thresholds.criticalPercent - BAND_HYSTERESIS_PERCENT,
+  });
+  return lowered && isHigherBand(previousBand, lowered) ? lowered : previousBand;
+}
+
+export function isHigherBand(band: CapacityBand, than: CapacityBand): boolean {
+  return BAND_ORDER.indexOf(band) > BAND_ORDER.indexOf(than);
+}
+
+/**
+ * Head count at which a threshold percentage is reached
+ */
+export function getThresholdCount(capacity: number, percent: number): number {
+  return Math.round((capacity * percent) / 100);
+}
@@ -0,0 +1,134 @@
+import moment from 'moment-timezone';
+import { isValidTimezone, toZonedMoment } from './time';
+
+export type DateRangePreset = 'today' | 'yesterday' | 'last7' | 'last30' | 'custom';
+
+/**
+ * What the user picked. Custom days are stored as calendar dates so the
+ * same days can be re-resolved when the display timezone changes.
+ */
+export interface DateRangeSelection {
+  preset: DateRangePreset;
+  from?: string; // YYYY-MM-DD, custom only
+  to?: string; // YYYY-MM-DD, custom only
+}
+
+export interface DateRange {
+  preset: DateRangePreset;
+  fromUtc: number; // UTC timestamp (milliseconds)
+  toUtc: number; // UTC timestamp (milliseconds)
+  timezone: string | null; // Timezone the day boundaries were computed in
+}
+
+export const DATE_RANGE_PRESETS: { value: DateRangePreset; label: string }[] = [
+  { value: 'today', label: 'Today' },
+  { value: 'yesterday', label: 'Yesterday' },
+  { value: 'last7', label: 'Last 7 days' },
+  { value: 'last30', label: 'Last 30 days' },
+  { value: 'custom', label: 'Custom' },
+];
+
+export const DATE_INPUT_FORMAT = 'YYYY-MM-DD';
+
+// Shared between Dashboard and CrowdEntries so the selection survives navigation
+const DATE_RANGE_KEY = 'date_range';
+
+/**
+ * Resolve a selection into day boundaries in `timezone` (the site's timezone,
+ * or the viewer's when null), returned as UTC timestamps for the API.
+ */
+export function resolveDateRange(
+  selection: DateRangeSelection,
+  timezone: string | null = null
+): DateRange {
+  const today = toZonedMoment(Date.now(), timezone);
+  const range = (from: moment.Moment, to: moment.Moment, preset: DateRangePreset): DateRange => ({
+    preset,
+    fromUtc: from.clone().startOf('day').valueOf(),
+    toUtc: to.clone().endOf('day').valueOf(),
+    timezone,
+  });
+
+  switch (selection.preset) {
+    case 'yesterday': {
+      const yesterday = today.clone().subtract(1, 'day');
+      return range(yesterday, yesterday, 'yesterday');
+    }
+    case 'last7':
+      return range(today.clone().subtract(6, 'days'), today, 'last7');
+    case 'last30':
+      return range(today.clone().subtract(29, 'days'), today, 'last30');
+    case 'custom': {
+      const from = parseDay(selection.from, timezone);
+      const to = parseDay(selection.to, timezone);
+      if (!from || !to) {
+        return resolveDateRange({ preset: 'today' }, timezone);
+      }
+      // Swap the bounds if they were picked in the wrong order
+      return from.isAfter(to) ? range(to, from, 'custom') : range(from, to, 'custom');
+    }
+    case 'today':
+    default:
+      return range(today, today, 'today');
+  }
+}
+
+function parseDay(day: string | undefined, timezone: string | null): moment.Moment | null {
+  if (!day) {
+    return null;
+  }
+  const parsed = isValidTimezone(timezone)
+    ? moment.tz(day, DATE_INPUT_FORMAT, true, timezone)
+    : moment(day, DATE_INPUT_FORMAT, true);
+  return parsed.isValid() ? parsed : null;
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of a range bound in the range's timezone
+ */
+export function toDateInputValue(utc: number, timezone: string | null): string {
+  return toZonedMoment(utc, timezone).format(DATE_INPUT_FORMAT);
+}
+
+/**
+ * Today's calendar date (YYYY-MM-DD) in the given timezone
+ */
+export function todayDateInputValue(timezone: string | null): string {
+  return toDateInputValue(Date.now(), timezone);
+}
+
+/**
+ * Whether the range ends today, i.e. live socket data belongs to it
+ */
+export function isLiveRange(range: DateRange): boolean {
+  return range.toUtc >= Date.now();
+}
+
+export function formatDateRangeLabel(range: DateRange): string {
+  const preset = DATE_RANGE_PRESETS.find((p) => p.value === range.preset);
+  if (range.preset !== 'custom' && preset) {
+    return preset.label;
+  }
+  const from = toZonedMoment(range.fromUtc, range.timezone).format('DD MMM YYYY');
+  const to = toZonedMoment(range.toUtc, range.timezone).format('DD MMM YYYY');
+  return from === to ? from : `${from} – ${to}`;
+}
+
+export function loadDateRangeSelection(): DateRangeSelection {
+  try {
+    const stored = sessionStorage.getItem(DATE_RANGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as DateRangeSelection;
+      if (parsed && typeof parsed.preset === 'string') {
+        return parsed;
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to read stored date range:', error);
+  }
+  return { preset: 'today' };
+}
+
+export function saveDateRangeSelection(selection: DateRangeSelection): void {
+  sessionStorage.setItem(DATE_RANGE_KEY, JSON.stringify(selection));
+}
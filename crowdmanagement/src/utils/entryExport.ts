@@ -0,0 +1,68 @@
+import type { CrowdEntry } from '../types/api';
+import { formatTime } from './entryFormat';
+import { formatInTimezone } from './time';
+import type { SpreadsheetRow } from './spreadsheet';
+
+export type EntryExportFormat = 'csv' | 'xlsx';
+
+const EXPORT_TIME_FORMAT = 'YYYY-MM-DD HH:mm:ss';
+
+export const ENTRY_EXPORT_COLUMNS = [
+  'Name',
+  'Person ID',
+  'Zone',
+  'Severity',
+  'Entry (site time)',
+  'Exit (site time)',
+  'Dwell (minutes)',
+];
+
+// Site-local wall-clock time; the API's local string is used if the site timezone is unknown
+function formatSiteTime(
+  local: string | null,
+  utc: number | null,
+  siteTimezone: string | null
+): string {
+  const formatted = siteTimezone
+    ? formatTime(local, utc, siteTimezone, EXPORT_TIME_FORMAT)
+    : formatTime(local, null, null, EXPORT_TIME_FORMAT);
+  return formatted === '--' ? '' : formatted;
+}
+
+/**
+ * Spreadsheet rows (header first) for exported entries
+ */
+export function toEntryExportRows(
+  entries: CrowdEntry[],
+  siteTimezone: string | null
+): SpreadsheetRow[] {
+  const rows = entries.map((entry): SpreadsheetRow => {
+    const hasExited = !!(entry.exitUtc || entry.exitLocal);
+    return [
+      entry.personName || 'Unknown',
+      entry.personId || '',
+      entry.zoneName || entry.zoneId || '',
+      entry.severity || '',
+      formatSiteTime(entry.entryLocal, entry.entryUtc, siteTimezone),
+      hasExited ? formatSiteTime(entry.exitLocal, entry.exitUtc, siteTimezone) : '',
+      hasExited && typeof entry.dwellMinutes === 'number'
+        ? Math.round(entry.dwellMinutes * 100) / 100
+        : null,
+    ];
+  });
+  return [ENTRY_EXPORT_COLUMNS, ...rows];
+}
+
+/**
+ * e.g. "crowd-entries_2024-05-01_2024-05-07.xlsx", dates in site time
+ */
+export function getEntryExportFilename(
+  fromUtc: number,
+  toUtc: number,
+  siteTimezone: string | null,
+  format: EntryExportFormat
+): string {
+  const from = formatInTimezone(fromUtc, siteTimezone, 'YYYY-MM-DD');
+  const to = formatInTimezone(toUtc, siteTimezone, 'YYYY-MM-DD');
+  return `crowd-entries_${from === to ? from : `${from}_${to}`}.${format}`;
+}
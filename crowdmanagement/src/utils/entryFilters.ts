@@ -0,0 +1,115 @@
+import type { CrowdEntry } from '../types/api';
+
+export type EntrySortKey = 'name' | 'entry' | 'exit' | 'dwell';
+export type SortDirection = 'asc' | 'desc';
+
+export interface EntrySort {
+  key: EntrySortKey;
+  direction: SortDirection;
+}
+
+export type EntryGender = 'male' | 'female' | 'other';
+
+// Empty strings match everything
+export interface EntryFilters {
+  zoneId: string; // Sent to the API
+  severity: string;
+  gender: EntryGender | '';
+  stillInside: boolean; // Only people who have not exited yet
+  search: string; // Matches the person's name or id
+}
+
+export const EMPTY_ENTRY_FILTERS: EntryFilters = {
+  zoneId: '',
+  severity: '',
+  gender: '',
+  stillInside: false,
+  search: '',
+};
+
+/**
+ * Whether any criteria the entry-exit API can't apply are set, meaning every
+ * page of the range has to be fetched and filtered, sorted and paged here
+ */
+export function needsClientSideQuery(filters: EntryFilters, sort: EntrySort | null): boolean {
+  return (
+    sort !== null ||
+    filters.severity !== '' ||
+    filters.gender !== '' ||
+    filters.stillInside ||
+    filters.search.trim() !== ''
+  );
+}
+
+export function hasActiveFilters(filters: EntryFilters): boolean {
+  return filters.zoneId !== '' || needsClientSideQuery(filters, null);
+}
+
+/**
+ * Gender as shown in the table; anything but male/female counts as other
+ */
+export function getEntryGender(entry: CrowdEntry): EntryGender {
+  return entry?.gender === 'male' || entry?.gender === 'female' ? entry.gender : 'other';
+}
+
+export function filterEntries(entries: CrowdEntry[], filters: EntryFilters): CrowdEntry[] {
+  const search = filters.search.trim().toLowerCase();
+  return entries.filter((entry) => {
+    if (!entry || typeof entry !== 'object') {
+      return false;
+    }
+    if (filters.zoneId && entry.zoneId !== filters.zoneId) {
+      return false;
+    }
+    if (filters.severity && entry.severity?.toLowerCase() !== filters.severity) {
+      return false;
+    }
+    if (filters.gender && getEntryGender(entry) !== filters.gender) {
+      return false;
+    }
+    if (filters.stillInside && entry.exitUtc !== null) {
+      return false;
+    }
+    return (
+      !search ||
+      (entry.personName || '').toLowerCase().includes(search) ||
+      (entry.personId || '').toLowerCase().includes(search)
+    );
+  });
+}
+
+function compareEntries(a: CrowdEntry, b: CrowdEntry, key: EntrySortKey): number {
+  switch (key) {
+    case 'name':
+      return (a.personName || '').localeCompare(b.personName || '');
+    case 'entry':
+      return (a.entryUtc || 0) - (b.entryUtc || 0);
+    case 'exit':
+      // People still inside have the latest exit of all
+      return (a.exitUtc ?? Infinity) - (b.exitUtc ?? Infinity) || 0;
+    case 'dwell':
+      return (a.dwellMinutes || 0) - (b.dwellMinutes || 0);
+  }
+}
+
+/**
+ * Sorted copy of the entries; ties keep their original (API) order
+ */
+export function sortEntries(entries: CrowdEntry[], sort: EntrySort | null): CrowdEntry[] {
+  if (!sort) {
+    return entries;
+  }
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  return [...entries].sort((a, b) => compareEntries(a, b, sort.key) * direction);
+}
+
+/**
+ * Next sort when a column header is clicked: ascending, then descending,
+ * then back to the API's order
+ */
+export function getNextEntrySort(current: EntrySort | null, key: EntrySortKey): EntrySort | null {
+  if (!current || current.key !== key) {
+    return { key, direction: 'asc' };
+  }
+  return current.direction === 'asc' ? { key, direction: 'desc' } : null;
+}
@@ -0,0 +1,81 @@
+import moment from 'moment-timezone';
+import { formatInTimezone } from './time';
+
+export const ENTRY_TIME_FORMAT = 'hh:mm a';
+export const ENTRY_DATE_TIME_FORMAT = 'DD MMM, hh:mm a';
+
+/**
+ * Format time as HH:MM AM/PM (for Entry/Exit columns) in the display timezone
+ */
+export function formatTime(
+  dateString: string | null | undefined,
+  utcTimestamp?: number | null,
+  timezone: string | null = null,
+  format: string = ENTRY_TIME_FORMAT
+): string {
+  // Try UTC timestamp first (new API format)
+  if (utcTimestamp && typeof utcTimestamp === 'number' && !isNaN(utcTimestamp)) {
+    const formatted = formatInTimezone(utcTimestamp, timezone, format);
+    if (formatted) {
+      return formatted;
+    }
+  }
+
+  // Fallback to dateString (site-local time string) - keep its own wall-clock time
+  if (!dateString) return '--';
+  const date = moment.parseZone(dateString);
+  return date.isValid() ? date.format(format) : '--';
+}
+
+/**
+ * Entry/Exit column format for a date range - include the day when the range spans several days
+ */
+export function getEntryTimeFormat(fromUtc: number, toUtc: number): string {
+  return toUtc - fromUtc > 24 * 60 * 60 * 1000 ? ENTRY_DATE_TIME_FORMAT : ENTRY_TIME_FORMAT;
+}
+
+/**
+ * Format dwell time as MM:SS
+ */
+export function formatDwellTime(minutes: number | null | undefined): string {
+  if (minutes === null || minutes === undefined || isNaN(minutes)) return '--';
+
+  const totalSeconds = Math.round(minutes * 60);
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  return `${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+}
+
+/**
+ * Generate initials for avatar
+ */
+export function getInitials(name: string): string {
+  if (!name || name === 'Unknown') return '?';
+  const parts = name.trim().split(' ');
+  if (parts.length >= 2) {
+    return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+  }
+  return name.substring(0, 2).toUpperCase();
+}
+
+const AVATAR_COLORS = [
+  '#667eea',
+  '#f093fb',
+  '#4facfe',
+  '#43e97b',
+  '#fa709a',
+  '#fee140',
+  '#30cfd0',
+  '#a8edea',
+];
+
+/**
+ * Get avatar color based on name
+ */
+export function getAvatarColor(name: string): string {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = name.charCodeAt(i) + ((hash << 5) - hash);
+  }
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
+}
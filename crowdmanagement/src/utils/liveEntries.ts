@@ -0,0 +1,72 @@
+import type { CrowdEntry, SocketAlertEvent } from '../types/api';
+
+/**
+ * Entry/exit alerts carry who moved where; zone activity and alerts without
+ * a person can't be matched to table rows
+ */
+export function isEntryExitEvent(event: SocketAlertEvent): boolean {
+  return (event.action === 'entry' || event.action === 'exit') && !!event.personId;
+}
+
+function getEventTime(event: SocketAlertEvent): number {
+  const time = Date.parse(event.timestamp);
+  return isNaN(time) ? Date.now() : time;
+}
+
+/**
+ * Table row for a live entry event, still open until the matching exit arrives
+ */
+export function toLiveEntry(event: SocketAlertEvent): CrowdEntry {
+  return {
+    personId: event.personId || '',
+    personName: event.personName || 'Unknown',
+    zoneId: event.zone?.id || '',
+    zoneName: event.zone?.name || '',
+    severity: event.severity,
+    entryUtc: getEventTime(event),
+    entryLocal: event.timestamp,
+    exitUtc: null,
+    exitLocal: null,
+    dwellMinutes: 0,
+  };
+}
+
+/**
+ * Whether the entry event is already in the list, e.g. when the page was
+ * loaded after the event happened
+ */
+export function hasLiveEntry(entries: CrowdEntry[], event: SocketAlertEvent): boolean {
+  const entryUtc = getEventTime(event);
+  return entries.some((entry) => entry?.personId === event.personId && entry.entryUtc === entryUtc);
+}
+
+/**
+ * Close the person's latest open visit with an exit event, setting its exit
+ * time and dwell. Returns the same array when no open visit is listed.
+ */
+export function closeLiveEntry(entries: CrowdEntry[], event: SocketAlertEvent): CrowdEntry[] {
+  const exitUtc = getEventTime(event);
+  let openIndex = -1;
+  entries.forEach((entry, index) => {
+    if (
+      entry?.personId === event.personId &&
+      entry.exitUtc === null &&
+      entry.entryUtc <= exitUtc &&
+      (openIndex === -1 || entry.entryUtc > entries[openIndex].entryUtc)
+    ) {
+      openIndex = index;
+    }
+  });
+  if (openIndex === -1) {
+    return entries;
+  }
+
+  const updated = [...entries];
+  updated[openIndex] = {
+    ...entries[openIndex],
+    exitUtc,
+    exitLocal: event.timestamp,
+    dwellMinutes: (exitUtc - entries[openIndex].entryUtc) / 60000,
+  };
+  return updated;
+}
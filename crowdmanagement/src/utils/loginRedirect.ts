@@ -0,0 +1,25 @@
+const DEFAULT_RETURN_PATH = '/dashboard';
+
+/**
+ * Path (with query string and hash) to come back to after signing in
+ */
+export function toReturnPath(location: { pathname: string; search: string; hash: string }): string {
+  return `${location.pathname}${location.search}${location.hash}`;
+}
+
+/**
+ * Where to go after signing in: the page recorded in the login route's
+ * `from` state, or the dashboard. Only same-app paths are followed.
+ */
+export function getReturnPath(state: unknown): string {
+  const from = (state as { from?: unknown } | null)?.from;
+  if (
+    typeof from !== 'string' ||
+    !from.startsWith('/') ||
+    from.startsWith('//') ||
+    from.startsWith('/login')
+  ) {
+    return DEFAULT_RETURN_PATH;
+  }
+  return from;
+}
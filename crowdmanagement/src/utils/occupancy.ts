@@ -0,0 +1,31 @@
+import type { OccupancyBucket } from '../types/api';
+
+/**
+ * A point on the occupancy chart
+ */
+export interface OccupancyPoint {
+  timestamp: string; // ISO string
+  occupancy: number;
+}
+
+export function toOccupancyPoints(buckets: OccupancyBucket[]): OccupancyPoint[] {
+  return buckets.map((bucket) => ({
+    timestamp: new Date(bucket.utc).toISOString(),
+    occupancy: bucket.avg,
+  }));
+}
+
+/**
+ * Merge freshly fetched buckets into the chart series. Buckets for the same
+ * hour replace the existing point since they cover more of that hour.
+ */
+export function mergeOccupancyPoints(
+  existing: OccupancyPoint[],
+  incoming: OccupancyPoint[]
+): OccupancyPoint[] {
+  const byTimestamp = new Map<number, OccupancyPoint>();
+  [...existing, ...incoming].forEach((point) => {
+    byTimestamp.set(new Date(point.timestamp).getTime(), point);
+  });
+  return [...byTimestamp.entries()].sort(([a], [b]) => a - b).map(([, point]) => point);
+}
@@ -0,0 +1,60 @@
+export type Role = 'viewer' | 'operator' | 'admin';
+
+export type Permission =
+  | 'exportData' // Download entries as CSV / Excel
+  | 'acknowledgeAlerts' // Acknowledge, assign, annotate and resolve alerts
+  | 'manageSettings'; // Settings page (capacity limits etc.)
+
+// Lowest to highest
+const ROLES: Role[] = ['viewer', 'operator', 'admin'];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  operator: ['exportData', 'acknowledgeAlerts'],
+  admin: ['exportData', 'acknowledgeAlerts', 'manageSettings'],
+};
+
+interface AccessClaims {
+  role?: unknown;
+  roles?: unknown;
+  permissions?: unknown;
+  user?: AccessClaims;
+}
+
+function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+const envDefaultRole = String(import.meta.env.VITE_DEFAULT_ROLE || '').toLowerCase();
+// Role of tokens that carry no role claim; least privilege unless configured
+const DEFAULT_ROLE: Role = isRole(envDefaultRole) ? envDefaultRole : 'viewer';
+
+/**
+ * Highest known role in the token claims. Accepts `role` or `roles`
+ * (string or array), at the top level or under `user`.
+ */
+export function getRoleFromClaims(claims: AccessClaims | null): Role {
+  const candidates = [claims?.role, claims?.roles, claims?.user?.role, claims?.user?.roles]
+    .flat()
+    .map((value) => (typeof value === 'string' ? value.toLowerCase() : value))
+    .filter(isRole);
+  if (candidates.length === 0) {
+    return DEFAULT_ROLE;
+  }
+  return candidates.reduce((highest, role) =>
+    ROLES.indexOf(role) > ROLES.indexOf(highest) ? role : highest
+  );
+}
+
+/**
+ * Permissions granted by the claims: an explicit `permissions` list when the
+ * token has one, otherwise those of its role
+ */
+export function getPermissionsFromClaims(claims: AccessClaims | null): Permission[] {
+  const explicit = claims?.permissions ?? claims?.user?.permissions;
+  if (Array.isArray(explicit)) {
+    const known = Object.values(ROLE_PERMISSIONS).flat();
+    return explicit.filter((p): p is Permission => known.includes(p as Permission));
+  }
+  return ROLE_PERMISSIONS[getRoleFromClaims(claims)];
+}
@@ -0,0 +1,60 @@
+import type { CrowdEntry } from '../types/api';
+import { formatInTimezone } from './time';
+
+export interface PersonDayVisits {
+  day: string; // YYYY-MM-DD in the display timezone
+  visits: number;
+  dwellMinutes: number;
+}
+
+export interface PersonHistory {
+  visits: CrowdEntry[]; // Oldest first
+  visitsPerDay: PersonDayVisits[]; // Oldest day first
+  zonesInOrder: string[]; // Zone names in visit order, repeats collapsed
+  totalDwellMinutes: number; // Completed visits only
+  averageDwellMinutes: number | null; // Null until a visit has ended
+  isInside: boolean; // The latest visit has no exit yet
+}
+
+/**
+ * Aggregate one person's entry/exit records, grouping days in `timezone`
+ */
+export function getPersonHistory(
+  entries: CrowdEntry[],
+  personId: string,
+  timezone: string | null
+): PersonHistory {
+  const visits = entries
+    .filter((entry) => entry && entry.personId === personId)
+    .sort((a, b) => (a.entryUtc || 0) - (b.entryUtc || 0));
+
+  const visitsPerDay: PersonDayVisits[] = [];
+  visits.forEach((visit) => {
+    const day = formatInTimezone(visit.entryUtc, timezone, 'YYYY-MM-DD');
+    const dwell = visit.exitUtc !== null ? visit.dwellMinutes || 0 : 0;
+    const last = visitsPerDay[visitsPerDay.length - 1];
+    if (last && last.day === day) {
+      last.visits++;
+      last.dwellMinutes += dwell;
+    } else {
+      visitsPerDay.push({ day, visits: 1, dwellMinutes: dwell });
+    }
+  });
+
+  const zonesInOrder = visits.reduce<string[]>((zones, visit) => {
+    const zone = visit.zoneName || visit.zoneId || 'Unknown zone';
+    return zones[zones.length - 1] === zone ? zones : [...zones, zone];
+  }, []);
+
+  const completed = visits.filter((visit) => visit.exitUtc !== null);
+  const totalDwellMinutes = completed.reduce((sum, visit) => sum + (visit.dwellMinutes || 0), 0);
+
+  return {
+    visits,
+    visitsPerDay,
+    zonesInOrder,
+    totalDwellMinutes,
+    averageDwellMinutes: completed.length > 0 ? totalDwellMinutes / completed.length : null,
+    isInside: visits.length > 0 && visits[visits.length - 1].exitUtc === null,
+  };
+}
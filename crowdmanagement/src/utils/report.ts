@@ -0,0 +1,87 @@
+import type { DemographicsBucket, OccupancyBucket } from '../types/api';
+import type { AlertRecord } from '../services/alertHistory.service';
+import { ALERT_SEVERITIES } from './alertFormat';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface PeakHour {
+  utc: number; // Start of the busiest bucket
+  endUtc: number; // End of that bucket
+  avg: number; // Average occupancy during that bucket
+}
+
+export interface DemographicsSummary {
+  male: number;
+  female: number;
+  malePercent: number;
+  femalePercent: number;
+}
+
+/**
+ * Spacing of the buckets: the smallest gap between two of them, or an hour
+ * when there are too few to tell
+ */
+function getBucketDuration(buckets: OccupancyBucket[]): number {
+  const times = buckets
+    .map((bucket) => bucket?.utc)
+    .filter((utc): utc is number => typeof utc === 'number')
+    .sort((a, b) => a - b);
+  let duration = Infinity;
+  for (let i = 1; i < times.length; i++) {
+    const gap = times[i] - times[i - 1];
+    if (gap > 0 && gap < duration) {
+      duration = gap;
+    }
+  }
+  return isFinite(duration) ? duration : HOUR_MS;
+}
+
+/**
+ * Bucket with the highest average occupancy, null when there are no buckets
+ */
+export function findPeakHour(buckets: OccupancyBucket[]): PeakHour | null {
+  const duration = getBucketDuration(buckets);
+  return buckets.reduce<PeakHour | null>((peak, bucket) => {
+    if (typeof bucket?.avg !== 'number' || isNaN(bucket.avg)) {
+      return peak;
+    }
+    return !peak || bucket.avg > peak.avg
+      ? { utc: bucket.utc, endUtc: bucket.utc + duration, avg: bucket.avg }
+      : peak;
+  }, null);
+}
+
+export function summarizeDemographics(buckets: DemographicsBucket[]): DemographicsSummary | null {
+  const count = (value: unknown) => (typeof value === 'number' && !isNaN(value) ? value : 0);
+  const male = buckets.reduce((sum, bucket) => sum + count(bucket?.male), 0);
+  const female = buckets.reduce((sum, bucket) => sum + count(bucket?.female), 0);
+  const total = male + female;
+  if (total === 0) {
+    return null;
+  }
+  return {
+    male,
+    female,
+    malePercent: Math.round((male / total) * 100),
+    femalePercent: Math.round((female / total) * 100),
+  };
+}
+
+/**
+ * Most severe alerts received within the range, most severe and then newest first
+ */
+export function selectTopAlerts(
+  alerts: AlertRecord[],
+  fromUtc: number,
+  toUtc: number,
+  limit: number
+): AlertRecord[] {
+  const rank = (record: AlertRecord) => ALERT_SEVERITIES.indexOf(record.event.severity);
+  return alerts
+    .filter((record) => {
+      const time = Date.parse(record.event.timestamp) || record.receivedAt;
+      return time >= fromUtc && time <= toUtc;
+    })
+    .sort((a, b) => rank(b) - rank(a) || b.receivedAt - a.receivedAt)
+    .slice(0, limit);
+}
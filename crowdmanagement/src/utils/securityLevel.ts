@@ -0,0 +1,16 @@
+/**
+ * Map a zone security level to its badge class (see ZoneSelector.css)
+ */
+export function getSecurityLevelClass(securityLevel: string | undefined): string {
+  switch (securityLevel?.toLowerCase()) {
+    case 'high':
+    case 'critical':
+    case 'restricted':
+      return 'security-high';
+    case 'medium':
+      return 'security-medium';
+    case 'low':
+    default:
+      return 'security-low';
+  }
+}
@@ -0,0 +1,181 @@
+import type { SocketAlertEvent, SocketLiveOccupancyEvent } from '../types/api';
+import { ALERT_ACTIONS, ALERT_SEVERITIES } from './alertFormat';
+
+/**
+ * Normalizers for raw Socket.IO payloads. Servers have sent occupancy as
+ * `occupancy`, `count`, `current`, `value` or a bare number, and alerts with
+ * the action under `type`, `event` or `eventType`; everything is converted
+ * here so components only ever see the strict types from `types/api`.
+ */
+
+type RawObject = Record<string, unknown>;
+
+export type SocketEventKind = 'occupancy' | 'alert';
+
+const OCCUPANCY_FIELDS = ['occupancy', 'count', 'current', 'value'];
+const ACTION_FIELDS = ['action', 'type', 'event', 'eventType'];
+
+const rejectedCounts: Record<SocketEventKind, number> = {
+  occupancy: 0,
+  alert: 0,
+};
+
+/**
+ * Number of malformed events dropped since the page loaded, per event kind
+ */
+export function getRejectedEventCounts(): Record<SocketEventKind, number> {
+  return { ...rejectedCounts };
+}
+
+function reject(kind: SocketEventKind, reason: string, raw: unknown): null {
+  rejectedCounts[kind] += 1;
+  console.warn(
+    `socketEvents: Rejected ${kind} event (${reason}), ${rejectedCounts[kind]} so far:`,
+    raw
+  );
+  return null;
+}
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toCount(value: unknown): number | null {
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof parsed === 'number' && isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'string' && value.trim() !== '') {
+    return value;
+  }
+  return typeof value === 'number' ? String(value) : undefined;
+}
+
+function toIsoTimestamp(value: unknown): string {
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) {
+      return date.toISOString();
+    }
+  }
+  // Events without a usable timestamp are treated as happening now
+  return new Date().toISOString();
+}
+
+/**
+ * `{ id, name }` of a nested `site`/`zone` object, falling back to flat
+ * `siteId`/`siteName` style fields
+ */
+function toRef(
+  raw: RawObject,
+  key: 'site' | 'zone'
+): { id?: string; name?: string; nested: RawObject } {
+  const nested = isObject(raw[key]) ? (raw[key] as RawObject) : {};
+  return {
+    id: toText(nested.id) ?? toText(nested[`${key}Id`]) ?? toText(raw[`${key}Id`]),
+    name: toText(nested.name) ?? toText(nested[`${key}Name`]) ?? toText(raw[`${key}Name`]),
+    nested,
+  };
+}
+
+export function normalizeOccupancyEvent(raw: unknown): SocketLiveOccupancyEvent | null {
+  // Some servers send just the number
+  if (!isObject(raw)) {
+    const occupancy = toCount(raw);
+    return occupancy !== null
+      ? { occupancy, timestamp: new Date().toISOString() }
+      : reject('occupancy', 'not an object or count', raw);
+  }
+
+  let occupancy: number | null = null;
+  for (const field of OCCUPANCY_FIELDS) {
+    occupancy = toCount(raw[field]);
+    if (occupancy !== null) {
+      break;
+    }
+  }
+  if (occupancy === null) {
+    return reject('occupancy', 'no valid occupancy value', raw);
+  }
+
+  const site = toRef(raw, 'site');
+  const zone = toRef(raw, 'zone');
+  const maxCapacity = toCount(raw.maxCapacity ?? raw.capacity);
+
+  return {
+    occupancy,
+    timestamp: toIsoTimestamp(raw.timestamp ?? raw.time ?? raw.utc),
+    ...(site.id ? { siteId: site.id } : {}),
+    ...(site.name ? { siteName: site.name } : {}),
+    ...(zone.id ? { zoneId: zone.id } : {}),
+    ...(zone.name ? { zoneName: zone.name } : {}),
+    ...(maxCapacity !== null ? { maxCapacity } : {}),
+  };
+}
+
+function toAction(value: string | undefined): SocketAlertEvent['action'] | null {
+  if (!value) {
+    return null;
+  }
+  const action = value.toLowerCase().replace(/-/g, '_');
+  if (ALERT_ACTIONS.some((option) => option.value === action)) {
+    return action as SocketAlertEvent['action'];
+  }
+  // zone_entry, zone_exit and similar zone events
+  return action.startsWith('zone') ? 'zone_activity' : null;
+}
+
+function toSeverity(value: unknown): SocketAlertEvent['severity'] | null {
+  const severity = typeof value === 'string' ? value.toLowerCase() : '';
+  return (ALERT_SEVERITIES as string[]).includes(severity)
+    ? (severity as SocketAlertEvent['severity'])
+    : null;
+}
+
+export function normalizeAlertEvent(raw: unknown): SocketAlertEvent | null {
+  if (!isObject(raw)) {
+    return reject('alert', 'not an object', raw);
+  }
+
+  let action: SocketAlertEvent['action'] | null = null;
+  for (const field of ACTION_FIELDS) {
+    action = toAction(toText(raw[field]));
+    if (action) {
+      break;
+    }
+  }
+  const message = toText(raw.message);
+  if (!action && !message) {
+    return reject('alert', 'no action or message', raw);
+  }
+  // Guessing a severity could downgrade a critical event, so drop it instead
+  const severity = toSeverity(raw.severity);
+  if (!severity) {
+    return reject('alert', 'missing or unknown severity', raw);
+  }
+
+  const site = toRef(raw, 'site');
+  const zone = toRef(raw, 'zone');
+  const securityLevel = toText(zone.nested.securityLevel) ?? toText(raw.securityLevel);
+  const personName = toText(raw.personName);
+  const personId = toText(raw.personId);
+
+  return {
+    action: action ?? 'zone_activity',
+    zone: {
+      id: zone.id ?? '',
+      name: zone.name ?? '',
+      ...(securityLevel ? { securityLevel } : {}),
+    },
+    site: {
+      id: site.id ?? '',
+      name: site.name ?? '',
+    },
+    severity,
+    timestamp: toIsoTimestamp(raw.timestamp ?? raw.time ?? raw.ts),
+    ...(message ? { message } : {}),
+    ...(personName ? { personName } : {}),
+    ...(personId ? { personId } : {}),
+  };
+}
@@ -0,0 +1,44 @@
+import moment from 'moment-timezone';
+
+/**
+ * IANA timezone of the browser (e.g. "Europe/Berlin")
+ */
+export function getViewerTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Whether the string is a timezone moment-timezone knows about
+ */
+export function isValidTimezone(timezone: string | null | undefined): timezone is string {
+  return !!timezone && moment.tz.zone(timezone) !== null;
+}
+
+/**
+ * Create a moment in the given timezone, falling back to the viewer's timezone
+ */
+export function toZonedMoment(
+  value: number | string | Date,
+  timezone: string | null | undefined
+): moment.Moment {
+  return isValidTimezone(timezone) ? moment.tz(value, timezone) : moment(value);
+}
+
+/**
+ * Format a timestamp in the given timezone (moment format tokens)
+ */
+export function formatInTimezone(
+  value: number | string | Date,
+  timezone: string | null | undefined,
+  format: string
+): string {
+  const zoned = toZonedMoment(value, timezone);
+  return zoned.isValid() ? zoned.format(format) : '';
+}
+
+/**
+ * Short timezone label for UI hints, e.g. "GST" or "+04"
+ */
+export function getTimezoneAbbreviation(timezone: string | null | undefined): string {
+  return toZonedMoment(Date.now(), timezone).format('z');
+}
@@ -0,0 +1,94 @@
+import { toZonedMoment } from './time';
+import type { DateRange } from './dateRange';
+import type { OccupancyBucket } from '../types/api';
+
+export type TrendComparison = 'previous' | 'lastWeek';
+
+export interface Trend {
+  direction: 'up' | 'down' | 'flat';
+  percentage: number; // Absolute change, rounded to one decimal
+}
+
+export const TREND_COMPARISONS: { value: TrendComparison; label: string }[] = [
+  { value: 'previous', label: 'Previous period' },
+  { value: 'lastWeek', label: 'Same weekday last week' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Number of calendar days covered by the range (1 for a single day)
+ */
+export function getRangeDays(range: DateRange): number {
+  return Math.max(1, Math.round((range.toUtc - range.fromUtc) / DAY_MS));
+}
+
+/**
+ * Days to shift the range back by for a comparison.
+ * Week comparisons keep the weekday, so they shift by a multiple of 7.
+ */
+function getShiftDays(range: DateRange, comparison: TrendComparison): number {
+  const days = getRangeDays(range);
+  return comparison === 'lastWeek' ? Math.ceil(days / 7) * 7 : days;
+}
+
+/**
+ * The equivalent earlier period of `range`. If the range is still running
+ * (e.g. "Today"), it is cut at the same time of day so partial days compare
+ * fairly: today until 14:00 vs yesterday until 14:00.
+ */
+export function getComparisonRange(
+  range: DateRange,
+  comparison: TrendComparison,
+  now: number
+): { fromUtc: number; toUtc: number } {
+  const shiftDays = getShiftDays(range, comparison);
+  const end = Math.min(range.toUtc, now);
+  return {
+    fromUtc: toZonedMoment(range.fromUtc, range.timezone).subtract(shiftDays, 'days').valueOf(),
+    toUtc: toZonedMoment(end, range.timezone).subtract(shiftDays, 'days').valueOf(),
+  };
+}
+
+/**
+ * Label used after "x% more than ..."
+ */
+export function getComparisonLabel(range: DateRange, comparison: TrendComparison): string {
+  const days = getRangeDays(range);
+  if (comparison === 'lastWeek') {
+    return days === 1 ? 'same day last week' : 'same period last week';
+  }
+  return days === 1 ? 'yesterday' : `previous ${days} days`;
+}
+
+/**
+ * Percentage change from `previous` to `current`.
+ * Returns null (neutral state) when there is nothing to compare against.
+ */
+export function computeTrend(current: number | null, previous: number | null): Trend | null {
+  if (current === null || previous === null || previous <= 0) {
+    return null;
+  }
+  const change = ((current - previous) / previous) * 100;
+  const percentage = Math.round(Math.abs(change) * 10) / 10;
+  if (percentage === 0) {
+    return { direction: 'flat', percentage: 0 };
+  }
+  return { direction: change > 0 ? 'up' : 'down', percentage };
+}
+
+/**
+ * Average occupancy of the bucket that covers `utc` (the latest bucket at or before it)
+ */
+export function getOccupancyAt(buckets: OccupancyBucket[], utc: number): number | null {
+  let match: OccupancyBucket | null = null;
+  for (const bucket of buckets) {
+    if (typeof bucket?.utc !== 'number' || bucket.utc > utc) {
+      continue;
+    }
+    if (!match || bucket.utc > match.utc) {
+      match = bucket;
+    }
+  }
+  return match && typeof match.avg === 'number' && !isNaN(match.avg) ? match.avg : null;
+}
@@ -0,0 +1,62 @@
+import type { DateRange, DateRangeSelection } from './dateRange';
+import { toDateInputValue } from './dateRange';
+
+/**
+ * View state shared through the query string, e.g.
+ * `/entries?site=…&from=2025-01-01&to=2025-01-07&page=3&zone=…`
+ */
+export interface ViewQuery {
+  site: string | null;
+  from: string | null; // YYYY-MM-DD in the display timezone
+  to: string | null;
+  page: number | null;
+  zone: string | null;
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function parseViewQuery(params: URLSearchParams): ViewQuery {
+  const day = (name: string) => {
+    const value = params.get(name);
+    return value && DAY_PATTERN.test(value) ? value : null;
+  };
+  const page = Number(params.get('page'));
+  return {
+    site: params.get('site') || null,
+    from: day('from'),
+    to: day('to'),
+    page: Number.isInteger(page) && page > 0 ? page : null,
+    zone: params.get('zone') || null,
+  };
+}
+
+/**
+ * Query string of a view, leaving out empty values and the first page
+ */
+export function toViewSearch(view: Partial<ViewQuery>): string {
+  const params = new URLSearchParams();
+  if (view.site) params.set('site', view.site);
+  if (view.from) params.set('from', view.from);
+  if (view.to) params.set('to', view.to);
+  if (view.page && view.page > 1) params.set('page', String(view.page));
+  if (view.zone) params.set('zone', view.zone);
+  return params.toString();
+}
+
+/**
+ * Date range of a shared view, or null when the link has none
+ */
+export function getViewRangeSelection(view: ViewQuery): DateRangeSelection | null {
+  return view.from && view.to ? { preset: 'custom', from: view.from, to: view.to } : null;
+}
+
+/**
+ * Calendar days of a range as written to the query string. Links always hold
+ * the actual days, so "Today" shared yesterday still opens yesterday.
+ */
+export function getViewRangeDays(range: DateRange): { from: string; to: string } {
+  return {
+    from: toDateInputValue(range.fromUtc, range.timezone),
+    to: toDateInputValue(range.toUtc, range.timezone),
+  };
+}